@@ -0,0 +1,111 @@
+import type { StorageBackend } from './types';
+
+/** A backup file found next to the collection file */
+export interface BackupFile {
+  /** Timestamp part of the backup filename, used as its identifier */
+  id: string;
+  /** Name of the backup file */
+  name: string;
+  /** When the backup was taken */
+  timestamp: Date;
+}
+
+/**
+ * Creates a backup filename with timestamp. Backups taken within the same millisecond
+ * get an increasing `sequence` suffix, so none replaces another.
+ */
+export function createBackupFilename(filename: string, sequence = 0, date = new Date()): string {
+  const timestamp = date.toISOString().replace(/[:.]/g, '-');
+  return `${filename}.backup.${timestamp}${sequence > 0 ? `-${sequence}` : ''}`;
+}
+
+/**
+ * Writes a backup of the collection file under a name no other backup has, returning that
+ * name. It sorts after every backup taken earlier, even within the same millisecond.
+ */
+export async function writeBackupFile(
+  filename: string,
+  contents: Uint8Array,
+  storage: StorageBackend
+): Promise<string> {
+  const date = new Date();
+  const prefix = createBackupFilename(filename, 0, date);
+  let sequence = 0;
+  for (const name of await storage.list()) {
+    const parsed = name.startsWith(prefix) ? parseBackupTimestamp(name.slice(`${filename}.backup.`.length)) : null;
+    if (parsed) sequence = Math.max(sequence, parsed.sequence + 1);
+  }
+
+  for (; ; sequence++) {
+    const name = createBackupFilename(filename, sequence, date);
+    try {
+      await storage.write(name, contents, { createNew: true });
+      return name;
+    } catch (error) {
+      // Another backup took this name in the meantime; try the next sequence number
+      if (!await storage.exists(name)) throw error;
+    }
+  }
+}
+
+/**
+ * Parses the timestamp id of a backup filename back into a date and the sequence
+ * number of backups taken within the same millisecond
+ */
+function parseBackupTimestamp(id: string): { timestamp: Date; sequence: number } | null {
+  const match = /^(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z(?:-(\d+))?$/.exec(id);
+  if (!match) return null;
+
+  const [, date, hours, minutes, seconds, millis, sequence] = match;
+  const timestamp = new Date(`${date}T${hours}:${minutes}:${seconds}.${millis}Z`);
+  return Number.isNaN(timestamp.getTime()) ? null : { timestamp, sequence: Number(sequence ?? 0) };
+}
+
+/**
+ * Lists the backup files of a collection, newest first
+ */
+export async function listBackupFiles(
+  filename: string,
+  storage: StorageBackend
+): Promise<BackupFile[]> {
+  const prefix = `${filename}.backup.`;
+  const names = await storage.list();
+  const backups: { backup: BackupFile; sequence: number }[] = [];
+
+  for (const name of names) {
+    if (!name.startsWith(prefix)) continue;
+
+    const id = name.slice(prefix.length);
+    const parsed = parseBackupTimestamp(id);
+    if (parsed) {
+      backups.push({ backup: { id, name, timestamp: parsed.timestamp }, sequence: parsed.sequence });
+    }
+  }
+
+  return backups
+    .sort((a, b) => b.backup.timestamp.getTime() - a.backup.timestamp.getTime() || b.sequence - a.sequence)
+    .map(({ backup }) => backup);
+}
+
+/**
+ * Cleans up old backup files, keeping only the most recent ones
+ */
+export async function cleanupOldBackups(
+  filename: string,
+  maxBackups: number,
+  storage: StorageBackend
+): Promise<void> {
+  try {
+    const backups = await listBackupFiles(filename, storage);
+
+    for (const backup of backups.slice(Math.max(0, maxBackups))) {
+      try {
+        await storage.remove(backup.name);
+      } catch (removeError) {
+        console.warn(`Failed to remove old backup ${backup.name}:`, removeError);
+      }
+    }
+  } catch (error) {
+    console.warn(`Failed to cleanup old backups for ${filename}:`, error);
+  }
+}
@@ -0,0 +1,204 @@
+/** Shared UTF-8 encoder for the binary codecs */
+export const utf8_encoder = new TextEncoder();
+const utf8_decoder = new TextDecoder();
+
+/**
+ * Appends big-endian values to a growing byte buffer
+ */
+export class ByteWriter {
+  private buffer = new Uint8Array(256);
+  private view = new DataView(this.buffer.buffer);
+  private length = 0;
+
+  uint8(value: number): void {
+    this.reserve(1);
+    this.view.setUint8(this.length, value);
+    this.length += 1;
+  }
+
+  uint16(value: number): void {
+    this.reserve(2);
+    this.view.setUint16(this.length, value);
+    this.length += 2;
+  }
+
+  uint32(value: number): void {
+    this.reserve(4);
+    this.view.setUint32(this.length, value);
+    this.length += 4;
+  }
+
+  uint64(value: bigint): void {
+    this.reserve(8);
+    this.view.setBigUint64(this.length, value);
+    this.length += 8;
+  }
+
+  int8(value: number): void {
+    this.reserve(1);
+    this.view.setInt8(this.length, value);
+    this.length += 1;
+  }
+
+  int16(value: number): void {
+    this.reserve(2);
+    this.view.setInt16(this.length, value);
+    this.length += 2;
+  }
+
+  int32(value: number): void {
+    this.reserve(4);
+    this.view.setInt32(this.length, value);
+    this.length += 4;
+  }
+
+  int64(value: bigint): void {
+    this.reserve(8);
+    this.view.setBigInt64(this.length, value);
+    this.length += 8;
+  }
+
+  float64(value: number): void {
+    this.reserve(8);
+    this.view.setFloat64(this.length, value);
+    this.length += 8;
+  }
+
+  bytes(value: Uint8Array): void {
+    this.reserve(value.byteLength);
+    this.buffer.set(value, this.length);
+    this.length += value.byteLength;
+  }
+
+  /** Returns a copy of the written bytes */
+  finish(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+
+  /** Grows the buffer so that `size` more bytes fit */
+  private reserve(size: number): void {
+    if (this.length + size <= this.buffer.byteLength) return;
+
+    let capacity = this.buffer.byteLength * 2;
+    while (capacity < this.length + size) capacity *= 2;
+
+    const next = new Uint8Array(capacity);
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+    this.view = new DataView(next.buffer);
+  }
+}
+
+/**
+ * Reads big-endian values from a byte array, failing on truncated input
+ */
+export class ByteReader {
+  private readonly view: DataView;
+  private offset = 0;
+
+  constructor(private readonly data: Uint8Array) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  /** Whether every byte has been read */
+  get done(): boolean {
+    return this.offset === this.data.byteLength;
+  }
+
+  uint8(): number {
+    return this.view.getUint8(this.take(1));
+  }
+
+  uint16(): number {
+    return this.view.getUint16(this.take(2));
+  }
+
+  uint32(): number {
+    return this.view.getUint32(this.take(4));
+  }
+
+  uint64(): bigint {
+    return this.view.getBigUint64(this.take(8));
+  }
+
+  int8(): number {
+    return this.view.getInt8(this.take(1));
+  }
+
+  int16(): number {
+    return this.view.getInt16(this.take(2));
+  }
+
+  int32(): number {
+    return this.view.getInt32(this.take(4));
+  }
+
+  int64(): bigint {
+    return this.view.getBigInt64(this.take(8));
+  }
+
+  float32(): number {
+    return this.view.getFloat32(this.take(4));
+  }
+
+  float64(): number {
+    return this.view.getFloat64(this.take(8));
+  }
+
+  bytes(length: number): Uint8Array {
+    const start = this.take(length);
+    return this.data.slice(start, start + length);
+  }
+
+  utf8(length: number): string {
+    const start = this.take(length);
+    return utf8_decoder.decode(this.data.subarray(start, start + length));
+  }
+
+  /** Advances past `size` bytes and returns where they start */
+  private take(size: number): number {
+    if (this.offset + size > this.data.byteLength) {
+      throw new Error('Unexpected end of data');
+    }
+    const start = this.offset;
+    this.offset += size;
+    return start;
+  }
+}
+
+/**
+ * Builds an object from decoded map entries, or a Map if any key is not a string.
+ * `Object.fromEntries` defines keys like `__proto__` as own properties instead of
+ * changing the prototype.
+ */
+export function fromMapEntries(entries: [unknown, unknown][]): Record<string, unknown> | Map<unknown, unknown> {
+  return entries.every(([key]) => typeof key === 'string')
+    ? Object.fromEntries(entries)
+    : new Map(entries);
+}
+
+/**
+ * Entries of a plain object that a codec should write; like JSON, undefined values are skipped
+ */
+export function objectEntries(value: object): [string, unknown][] {
+  return Object.entries(value).filter(([, entry]) => entry !== undefined);
+}
+
+/** Encodes bytes as base64 */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+/** Decodes base64 into bytes */
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
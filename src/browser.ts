@@ -0,0 +1,292 @@
+import type { StorageBackend } from './types';
+
+/** Browser storage used when the app runs outside Tauri, e.g. during `vite dev` */
+export type BrowserStorageKind = 'indexeddb' | 'opfs';
+
+/** Default IndexedDB database and OPFS directory name */
+const DEFAULT_NAME = 'signaldb-adapter-tauri';
+
+/** Object store holding one record per file, keyed by filename */
+const FILES_STORE = 'files';
+
+/** A file stored in IndexedDB */
+interface StoredFile {
+  data: Uint8Array;
+  /** Modification time in milliseconds */
+  mtime: number;
+}
+
+/** Async iteration over directory entries, which the DOM lib declares separately */
+type IterableDirectoryHandle = FileSystemDirectoryHandle & {
+  values(): AsyncIterable<FileSystemHandle>;
+};
+
+/**
+ * Checks whether a browser storage can be used in this runtime
+ */
+export function isBrowserStorageAvailable(kind: BrowserStorageKind): boolean {
+  if (kind === 'indexeddb') {
+    return typeof indexedDB !== 'undefined';
+  }
+  return typeof navigator !== 'undefined' && typeof navigator.storage?.getDirectory === 'function';
+}
+
+/**
+ * Creates storage in an IndexedDB database (default: `signaldb-adapter-tauri`). Renames
+ * and exclusive creates run in a single transaction, so they are atomic across tabs.
+ */
+export function createIndexedDbStorage(database = DEFAULT_NAME): StorageBackend {
+  const id = `indexeddb:${database}`;
+  let opened: Promise<IDBDatabase> | null = null;
+
+  function openDatabase(): Promise<IDBDatabase> {
+    opened ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(database, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(FILES_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      opened = null;
+      throw new Error(`Failed to open IndexedDB database ${database}`, { cause: error });
+    });
+    return opened;
+  }
+
+  /**
+   * Runs requests in one transaction and resolves with the last result of `task` once the
+   * transaction has committed. Calling `fail` aborts the transaction and rejects with the error.
+   */
+  async function transact<R>(
+    mode: IDBTransactionMode,
+    task: (store: IDBObjectStore, fail: (error: Error) => void) => IDBRequest | void
+  ): Promise<R> {
+    const transaction = (await openDatabase()).transaction(FILES_STORE, mode);
+    let failure: Error | null = null;
+    const request = task(transaction.objectStore(FILES_STORE), (error) => {
+      failure = error;
+      transaction.abort();
+    });
+
+    return new Promise<R>((resolve, reject) => {
+      transaction.oncomplete = () => resolve(request?.result as R);
+      transaction.onabort = () => reject(failure ?? transaction.error ?? new Error('IndexedDB transaction aborted'));
+    });
+  }
+
+  async function readFile(name: string): Promise<StoredFile> {
+    const file = await transact<StoredFile | undefined>('readonly', store => store.get(name));
+    if (!file) throw notFound(name);
+    return file;
+  }
+
+  return {
+    id,
+
+    read: async name => (await readFile(name)).data,
+
+    async write(name, data, options = {}) {
+      const file: StoredFile = { data: data.slice(), mtime: Date.now() };
+      await transact('readwrite', (store, fail) => {
+        if (!options.createNew) return store.put(file, name);
+
+        // add() fails if the key exists, within the same transaction
+        const request = store.add(file, name);
+        request.onerror = (event) => {
+          event.preventDefault();
+          fail(new Error(`File already exists: ${name}`, { cause: request.error }));
+        };
+        return request;
+      });
+      announceChange(id, [name]);
+    },
+
+    async rename(from, to) {
+      await transact('readwrite', (store, fail) => {
+        const request = store.get(from);
+        request.onsuccess = () => {
+          if (!request.result) {
+            fail(notFound(from));
+            return;
+          }
+          store.put(request.result, to);
+          store.delete(from);
+        };
+      });
+      announceChange(id, [from, to]);
+    },
+
+    async remove(name) {
+      await transact('readwrite', store => store.delete(name));
+      announceChange(id, [name]);
+    },
+
+    exists: async name => await transact<number>('readonly', store => store.count(name)) > 0,
+
+    list: async () => (await transact<IDBValidKey[]>('readonly', store => store.getAllKeys())).map(String),
+
+    async stat(name) {
+      const file = await readFile(name);
+      return { size: file.data.byteLength, mtime: new Date(file.mtime) };
+    },
+
+    watch: (callback, { delayMs }) => watchChanges(id, callback, delayMs)
+  };
+}
+
+/**
+ * Creates storage in a directory of the origin private file system (default:
+ * `signaldb-adapter-tauri`). Writes go through `createWritable()`, which replaces a file
+ * only once the new contents are complete.
+ */
+export function createOpfsStorage(directory = DEFAULT_NAME): StorageBackend {
+  const id = `opfs:${directory}`;
+  let handle: Promise<IterableDirectoryHandle> | null = null;
+
+  function directoryHandle(): Promise<IterableDirectoryHandle> {
+    handle ??= navigator.storage.getDirectory()
+      .then(root => root.getDirectoryHandle(directory, { create: true }) as Promise<IterableDirectoryHandle>)
+      .catch((error) => {
+        handle = null;
+        throw new Error(`Failed to open OPFS directory ${directory}`, { cause: error });
+      });
+    return handle;
+  }
+
+  async function readFile(name: string): Promise<File> {
+    try {
+      const file_handle = await (await directoryHandle()).getFileHandle(name);
+      return await file_handle.getFile();
+    } catch (error) {
+      throw notFound(name, error);
+    }
+  }
+
+  async function writeFile(name: string, data: Uint8Array): Promise<void> {
+    const file_handle = await (await directoryHandle()).getFileHandle(name, { create: true });
+    const writable = await file_handle.createWritable();
+    try {
+      await writable.write(data);
+      await writable.close();
+    } catch (error) {
+      await writable.abort().catch(() => undefined);
+      throw error;
+    }
+  }
+
+  async function exists(name: string): Promise<boolean> {
+    try {
+      await (await directoryHandle()).getFileHandle(name);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  return {
+    id,
+
+    read: async name => new Uint8Array(await (await readFile(name)).arrayBuffer()),
+
+    async write(name, data, options = {}) {
+      // OPFS has no exclusive create, so unlike IndexedDB this is not atomic across tabs
+      if (options.createNew && await exists(name)) {
+        throw new Error(`File already exists: ${name}`);
+      }
+      await writeFile(name, data);
+      announceChange(id, [name]);
+    },
+
+    // OPFS has no atomic rename, but the target is only replaced once its new contents are complete
+    async rename(from, to) {
+      const data = new Uint8Array(await (await readFile(from)).arrayBuffer());
+      await writeFile(to, data);
+      await (await directoryHandle()).removeEntry(from);
+      announceChange(id, [from, to]);
+    },
+
+    async remove(name) {
+      await (await directoryHandle()).removeEntry(name);
+      announceChange(id, [name]);
+    },
+
+    exists,
+
+    async list() {
+      const names: string[] = [];
+      for await (const entry of (await directoryHandle()).values()) {
+        if (entry.kind === 'file') names.push(entry.name);
+      }
+      return names;
+    },
+
+    async stat(name) {
+      const file = await readFile(name);
+      return { size: file.size, mtime: new Date(file.lastModified) };
+    },
+
+    watch: (callback, { delayMs }) => watchChanges(id, callback, delayMs)
+  };
+}
+
+/**
+ * Creates the browser storage of the given kind
+ *
+ * @throws {Error} If the storage is not available in this runtime
+ */
+export function createBrowserStorage(kind: BrowserStorageKind, name = DEFAULT_NAME): StorageBackend {
+  if (!isBrowserStorageAvailable(kind)) {
+    throw new Error(`Browser storage ${kind} is not available in this runtime`);
+  }
+  return kind === 'indexeddb' ? createIndexedDbStorage(name) : createOpfsStorage(name);
+}
+
+function notFound(name: string, cause?: unknown): Error {
+  return new Error(`File not found: ${name}`, { cause });
+}
+
+/** Name of the broadcast channel announcing changes to a storage */
+function channelName(id: string): string {
+  return `signaldb-adapter-tauri:${id}`;
+}
+
+/**
+ * Tells watchers in every tab of the origin that files changed. Browser storage has no
+ * change events of its own.
+ */
+function announceChange(id: string, names: string[]): void {
+  if (typeof BroadcastChannel === 'undefined') return;
+
+  const channel = new BroadcastChannel(channelName(id));
+  channel.postMessage(names);
+  channel.close();
+}
+
+/**
+ * Calls `callback` with the names of changed files, batching announcements
+ * that arrive within `delayMs`
+ */
+async function watchChanges(id: string, callback: (names: string[]) => void, delayMs: number): Promise<() => void> {
+  if (typeof BroadcastChannel === 'undefined') {
+    throw new Error('Watching browser storage requires BroadcastChannel');
+  }
+
+  const changed = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const channel = new BroadcastChannel(channelName(id));
+  channel.onmessage = (event: MessageEvent<string[]>) => {
+    for (const name of event.data) changed.add(name);
+    timer ??= setTimeout(() => {
+      timer = null;
+      const names = [...changed];
+      changed.clear();
+      callback(names);
+    }, delayMs);
+  };
+
+  return () => {
+    if (timer) clearTimeout(timer);
+    channel.close();
+  };
+}
@@ -0,0 +1,63 @@
+import type { StorageStat } from './types';
+
+/** Last known contents of a collection file, keyed by item id */
+export interface ItemCache<T> {
+  items: Map<unknown, T>;
+  /** Modification time of the file when the cache was filled */
+  mtime: number;
+  /** Size of the file when the cache was filled */
+  size: number;
+  /** Write generation of the file when the cache was filled */
+  generation: number;
+}
+
+/**
+ * Number of writes made to each file by this process, keyed like the write queue.
+ * Catches writes from other adapter instances that a coarse mtime would miss.
+ */
+const write_generations = new Map<string, number>();
+
+/**
+ * Returns the current write generation of a file
+ */
+export function writeGeneration(key: string): number {
+  return write_generations.get(key) ?? 0;
+}
+
+/**
+ * Records that a file was written, invalidating every cache filled before
+ */
+export function bumpWriteGeneration(key: string): number {
+  const generation = writeGeneration(key) + 1;
+  write_generations.set(key, generation);
+  return generation;
+}
+
+/**
+ * Creates a cache entry from items and the file info taken before they were read or after they were written
+ */
+export function createItemCache<T extends { id: unknown }>(
+  items: T[],
+  info: StorageStat,
+  generation: number
+): ItemCache<T> | null {
+  // Without a modification time there is no way to notice external changes
+  if (!info.mtime) return null;
+
+  return {
+    items: new Map(items.map(item => [item.id, item])),
+    mtime: info.mtime.getTime(),
+    size: info.size,
+    generation
+  };
+}
+
+/**
+ * Checks whether a cache still reflects the file on disk
+ */
+export function isCacheFresh<T>(cache: ItemCache<T>, info: StorageStat, generation: number): boolean {
+  return cache.generation === generation &&
+    info.mtime !== null &&
+    cache.mtime === info.mtime.getTime() &&
+    cache.size === info.size;
+}
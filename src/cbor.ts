@@ -0,0 +1,301 @@
+import { ByteReader, ByteWriter, fromMapEntries, objectEntries, utf8_encoder } from './binary';
+
+/** Major types of the initial byte */
+const MAJOR_UINT = 0;
+const MAJOR_NEGINT = 1;
+const MAJOR_BYTES = 2;
+const MAJOR_TEXT = 3;
+const MAJOR_ARRAY = 4;
+const MAJOR_MAP = 5;
+const MAJOR_TAG = 6;
+const MAJOR_SIMPLE = 7;
+
+/** Registered tags (RFC 8949 and the IANA CBOR tag registry) */
+const TAG_DATE_STRING = 0;
+const TAG_DATE_EPOCH = 1;
+const TAG_POSITIVE_BIGNUM = 2;
+const TAG_NEGATIVE_BIGNUM = 3;
+const TAG_SET = 258;
+const TAG_MAP = 259;
+
+/**
+ * Encodes a value as CBOR (RFC 8949).
+ *
+ * Dates are tagged date/time strings, `BigInt`s are bignums, `Set`s and `Map`s use the
+ * registered set (258) and map (259) tags, so every supported type round-trips.
+ *
+ * @throws {TypeError} For functions and symbols
+ */
+export function encodeCbor(value: unknown): Uint8Array {
+  const writer = new ByteWriter();
+  encodeValue(value, writer);
+  return writer.finish();
+}
+
+/**
+ * Decodes CBOR into a value. Untagged maps with only string keys become plain objects,
+ * other maps become `Map`s; unknown tags are ignored.
+ *
+ * @throws {Error} If the data is truncated, malformed, uses indefinite lengths or has trailing bytes
+ */
+export function decodeCbor(data: Uint8Array): unknown {
+  const reader = new ByteReader(data);
+  const value = decodeValue(reader);
+  if (!reader.done) {
+    throw new Error('Unexpected trailing data after CBOR value');
+  }
+  return value;
+}
+
+function encodeValue(value: unknown, writer: ByteWriter): void {
+  switch (typeof value) {
+    case 'undefined':
+      writer.uint8(0xf7);
+      return;
+    case 'boolean':
+      writer.uint8(value ? 0xf5 : 0xf4);
+      return;
+    case 'number':
+      encodeNumber(value, writer);
+      return;
+    case 'bigint':
+      encodeBigInt(value, writer);
+      return;
+    case 'string': {
+      const bytes = utf8_encoder.encode(value);
+      writeHead(MAJOR_TEXT, bytes.byteLength, writer);
+      writer.bytes(bytes);
+      return;
+    }
+    case 'object':
+      break;
+    default:
+      throw new TypeError(`Cannot encode a ${typeof value} as CBOR`);
+  }
+
+  if (value === null) {
+    writer.uint8(0xf6);
+  } else if (value instanceof Uint8Array) {
+    writeHead(MAJOR_BYTES, value.byteLength, writer);
+    writer.bytes(value);
+  } else if (value instanceof Date) {
+    // Invalid dates become null, as in JSON
+    if (Number.isNaN(value.getTime())) {
+      writer.uint8(0xf6);
+    } else {
+      writeHead(MAJOR_TAG, TAG_DATE_STRING, writer);
+      encodeValue(value.toISOString(), writer);
+    }
+  } else if (value instanceof Set) {
+    writeHead(MAJOR_TAG, TAG_SET, writer);
+    encodeArray(Array.from(value), writer);
+  } else if (Array.isArray(value)) {
+    encodeArray(value, writer);
+  } else if (value instanceof Map) {
+    writeHead(MAJOR_TAG, TAG_MAP, writer);
+    encodeEntries(Array.from(value), writer);
+  } else {
+    encodeEntries(objectEntries(value), writer);
+  }
+}
+
+function encodeNumber(value: number, writer: ByteWriter): void {
+  if (Number.isSafeInteger(value) && !Object.is(value, -0)) {
+    if (value >= 0) {
+      writeHead(MAJOR_UINT, value, writer);
+    } else {
+      writeHead(MAJOR_NEGINT, -1 - value, writer);
+    }
+  } else {
+    writer.uint8(0xfb);
+    writer.float64(value);
+  }
+}
+
+/**
+ * Writes a bignum, so BigInts decode back into BigInts whatever their size
+ */
+function encodeBigInt(value: bigint, writer: ByteWriter): void {
+  const negative = value < 0n;
+  writeHead(MAJOR_TAG, negative ? TAG_NEGATIVE_BIGNUM : TAG_POSITIVE_BIGNUM, writer);
+
+  let hex = (negative ? -1n - value : value).toString(16);
+  if (hex.length % 2) hex = `0${hex}`;
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.byteLength; i++) {
+    bytes[i] = Number.parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  writeHead(MAJOR_BYTES, bytes.byteLength, writer);
+  writer.bytes(bytes);
+}
+
+function encodeArray(items: unknown[], writer: ByteWriter): void {
+  writeHead(MAJOR_ARRAY, items.length, writer);
+  for (const item of items) encodeValue(item, writer);
+}
+
+function encodeEntries(entries: [unknown, unknown][], writer: ByteWriter): void {
+  writeHead(MAJOR_MAP, entries.length, writer);
+  for (const [key, entry] of entries) {
+    encodeValue(key, writer);
+    encodeValue(entry, writer);
+  }
+}
+
+/**
+ * Writes the initial byte and argument of a data item in its shortest form
+ */
+function writeHead(major: number, argument: number, writer: ByteWriter): void {
+  const type = major << 5;
+  if (argument < 24) {
+    writer.uint8(type | argument);
+  } else if (argument <= 0xff) {
+    writer.uint8(type | 24);
+    writer.uint8(argument);
+  } else if (argument <= 0xffff) {
+    writer.uint8(type | 25);
+    writer.uint16(argument);
+  } else if (argument <= 0xffffffff) {
+    writer.uint8(type | 26);
+    writer.uint32(argument);
+  } else {
+    writer.uint8(type | 27);
+    writer.uint64(BigInt(argument));
+  }
+}
+
+function decodeValue(reader: ByteReader): unknown {
+  const initial = reader.uint8();
+  const major = initial >> 5;
+  const info = initial & 0x1f;
+
+  if (major === MAJOR_SIMPLE) {
+    return decodeSimple(reader, info);
+  }
+
+  const argument = readArgument(reader, info);
+  switch (major) {
+    case MAJOR_UINT:
+      return argument;
+    case MAJOR_NEGINT:
+      return typeof argument === 'bigint' || argument >= Number.MAX_SAFE_INTEGER
+        ? -1n - BigInt(argument)
+        : -1 - argument;
+    case MAJOR_BYTES:
+      return reader.bytes(toLength(argument));
+    case MAJOR_TEXT:
+      return reader.utf8(toLength(argument));
+    case MAJOR_ARRAY:
+      return decodeArray(reader, toLength(argument));
+    case MAJOR_MAP:
+      return fromMapEntries(decodeEntries(reader, toLength(argument)));
+    default:
+      return decodeTagged(reader, argument);
+  }
+}
+
+function decodeSimple(reader: ByteReader, info: number): unknown {
+  switch (info) {
+    case 20: return false;
+    case 21: return true;
+    case 22: return null;
+    case 23: return undefined;
+    case 25: return decodeFloat16(reader.uint16());
+    case 26: return reader.float32();
+    case 27: return reader.float64();
+    default:
+      throw new Error(`Unsupported CBOR simple value ${info}`);
+  }
+}
+
+function decodeTagged(reader: ByteReader, tag: number | bigint): unknown {
+  if (tag === TAG_MAP) {
+    // Decode the entries directly, so string keys do not turn it into a plain object
+    const initial = reader.uint8();
+    if (initial >> 5 !== MAJOR_MAP) {
+      throw new Error('CBOR map tag must wrap a map');
+    }
+    return new Map(decodeEntries(reader, toLength(readArgument(reader, initial & 0x1f))));
+  }
+
+  const content = decodeValue(reader);
+  switch (tag) {
+    case TAG_DATE_STRING:
+      return new Date(content as string);
+    case TAG_DATE_EPOCH:
+      return new Date((content as number) * 1000);
+    case TAG_POSITIVE_BIGNUM:
+      return bytesToBigInt(content as Uint8Array);
+    case TAG_NEGATIVE_BIGNUM:
+      return -1n - bytesToBigInt(content as Uint8Array);
+    case TAG_SET:
+      return new Set(content as unknown[]);
+    default:
+      return content;
+  }
+}
+
+function decodeArray(reader: ByteReader, length: number): unknown[] {
+  const items: unknown[] = [];
+  for (let i = 0; i < length; i++) {
+    items.push(decodeValue(reader));
+  }
+  return items;
+}
+
+function decodeEntries(reader: ByteReader, length: number): [unknown, unknown][] {
+  const entries: [unknown, unknown][] = [];
+  for (let i = 0; i < length; i++) {
+    entries.push([decodeValue(reader), decodeValue(reader)]);
+  }
+  return entries;
+}
+
+/**
+ * Reads the argument following the initial byte; 64-bit values beyond the safe
+ * integer range are returned as BigInts
+ */
+function readArgument(reader: ByteReader, info: number): number | bigint {
+  if (info < 24) return info;
+
+  switch (info) {
+    case 24: return reader.uint8();
+    case 25: return reader.uint16();
+    case 26: return reader.uint32();
+    case 27: {
+      const value = reader.uint64();
+      return value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value;
+    }
+    case 31:
+      throw new Error('Indefinite-length CBOR items are not supported');
+    default:
+      throw new Error(`Invalid CBOR additional information ${info}`);
+  }
+}
+
+/** Narrows an argument to a length; anything that large cannot fit in memory anyway */
+function toLength(argument: number | bigint): number {
+  if (typeof argument === 'bigint') {
+    throw new Error('CBOR item is too large');
+  }
+  return argument;
+}
+
+function bytesToBigInt(bytes: Uint8Array): bigint {
+  let value = 0n;
+  for (const byte of bytes) {
+    value = (value << 8n) | BigInt(byte);
+  }
+  return value;
+}
+
+/** Decodes an IEEE 754 half-precision float */
+function decodeFloat16(half: number): number {
+  const sign = half & 0x8000 ? -1 : 1;
+  const exponent = (half >> 10) & 0x1f;
+  const fraction = half & 0x3ff;
+
+  if (exponent === 0) return sign * 2 ** -14 * (fraction / 1024);
+  if (exponent === 31) return fraction ? Number.NaN : sign * Number.POSITIVE_INFINITY;
+  return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+}
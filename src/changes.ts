@@ -0,0 +1,59 @@
+import type { Changeset } from '@signaldb/core';
+
+/** Changes accumulated between flushes, keyed by item id */
+export interface PendingChanges<T extends { id: unknown }> {
+  added: Map<unknown, T>;
+  modified: Map<unknown, T>;
+  removed: Map<unknown, T>;
+}
+
+/**
+ * Creates an empty set of pending changes
+ */
+export function createPendingChanges<T extends { id: unknown }>(): PendingChanges<T> {
+  return { added: new Map(), modified: new Map(), removed: new Map() };
+}
+
+/**
+ * Merges a changeset into the pending changes so that applying the result once
+ * has the same effect as applying every merged changeset in order
+ */
+export function mergeChanges<T extends { id: unknown }>(
+  pending: PendingChanges<T>,
+  changes: Changeset<T>
+): void {
+  for (const item of changes.removed ?? []) {
+    // Items added since the last flush were never persisted, so they just disappear
+    if (pending.added.delete(item.id)) continue;
+    pending.modified.delete(item.id);
+    pending.removed.set(item.id, item);
+  }
+
+  for (const item of changes.modified ?? []) {
+    if (pending.added.has(item.id)) {
+      pending.added.set(item.id, item);
+    } else {
+      pending.modified.set(item.id, item);
+    }
+  }
+
+  for (const item of changes.added ?? []) {
+    // Re-adding a persisted item that was removed since the last flush replaces it
+    if (pending.removed.delete(item.id)) {
+      pending.modified.set(item.id, item);
+    } else {
+      pending.added.set(item.id, item);
+    }
+  }
+}
+
+/**
+ * Converts pending changes back into a changeset
+ */
+export function toChangeset<T extends { id: unknown }>(pending: PendingChanges<T>): Changeset<T> {
+  return {
+    added: [...pending.added.values()],
+    modified: [...pending.modified.values()],
+    removed: [...pending.removed.values()]
+  };
+}
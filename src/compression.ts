@@ -0,0 +1,42 @@
+/** Compression applied to the serialized payload before encryption */
+export type Compression = 'gzip' | 'deflate' | 'none';
+
+/**
+ * Checks whether a value names a supported compression
+ */
+export function isCompression(value: unknown): value is Compression {
+  return value === 'gzip' || value === 'deflate' || value === 'none';
+}
+
+/**
+ * Compresses data with the platform's CompressionStream
+ */
+export async function compress(data: Uint8Array, compression: Compression): Promise<Uint8Array> {
+  if (compression === 'none') return data;
+  return pipe(data, new (streamClass('CompressionStream'))(compression));
+}
+
+/**
+ * Decompresses data with the platform's DecompressionStream
+ *
+ * @throws {Error} If the data is not valid for the given compression
+ */
+export async function decompress(data: Uint8Array, compression: Compression): Promise<Uint8Array> {
+  if (compression === 'none') return data;
+  return pipe(data, new (streamClass('DecompressionStream'))(compression));
+}
+
+/** Pushes data through a transform stream and collects the output */
+async function pipe(data: Uint8Array, transform: GenericTransformStream): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** Looks up a compression stream class, which older webviews may lack */
+function streamClass(name: 'CompressionStream' | 'DecompressionStream') {
+  const stream_class = globalThis[name];
+  if (typeof stream_class === 'undefined') {
+    throw new Error(`${name} is not available in this environment`);
+  }
+  return stream_class;
+}
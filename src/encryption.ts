@@ -0,0 +1,231 @@
+import type { EncryptionContext, KeyProvider, PayloadEncryption } from './types';
+import { base64ToBytes, bytesToBase64 } from './binary';
+
+/** OWASP's 2023 recommendation for PBKDF2-HMAC-SHA256 */
+const DEFAULT_ITERATIONS = 600_000;
+
+/** Binds derived keys to this use, so the same secret yields different keys elsewhere */
+const HKDF_INFO = new TextEncoder().encode('signaldb-adapter-tauri AES-256-GCM');
+
+const NEWLINE = 0x0a;
+
+export type AesGcmEncryptionOptions = {
+  /** Identifies the key in a keyring, e.g. after a key rotation */
+  keyId?: string;
+} & (
+  | {
+    /** Passphrase stretched with PBKDF2-HMAC-SHA256 */
+    passphrase: string;
+    /** PBKDF2 iterations for new writes (default: 600000); reads use the count stored in the file */
+    iterations?: number;
+    key?: never;
+  }
+  | {
+    /** Secret of at least 16 random bytes, or an HKDF `CryptoKey` with the `deriveKey` usage */
+    key: Uint8Array | CryptoKey;
+    passphrase?: never;
+    iterations?: never;
+  }
+);
+
+/** Parameters stored in front of the ciphertext, so any write can be decrypted later */
+interface AesGcmHeader {
+  /** Format version */
+  version: 1;
+  cipher: 'AES-256-GCM';
+  /** How the secret was derived from a passphrase; absent for raw keys */
+  pbkdf2?: { hash: 'SHA-256'; iterations: number; salt: string };
+  /** Base64 salt of the per-write HKDF-SHA256 derivation */
+  salt: string;
+  /** Base64 AES-GCM initialization vector */
+  iv: string;
+}
+
+/**
+ * Creates AES-256-GCM payload encryption for the `encryption` adapter option.
+ *
+ * Every write derives a fresh key with HKDF-SHA256 from a random salt and uses a random
+ * IV; the collection filename is authenticated data, so a file copied over another
+ * collection fails to decrypt. With rollback protection the write generation is authenticated
+ * as well. Passphrases are first stretched with PBKDF2, once per salt. The KDF parameters
+ * are stored in the payload.
+ *
+ * @throws {Error} If the passphrase is empty or the key is too short or of the wrong kind
+ */
+export function createAesGcmEncryption(options: AesGcmEncryptionOptions): PayloadEncryption {
+  const iterations = options.iterations ?? DEFAULT_ITERATIONS;
+  if (options.passphrase !== undefined) {
+    if (!options.passphrase) {
+      throw new Error('AES-GCM passphrase must not be empty');
+    }
+    if (!Number.isInteger(iterations) || iterations < 1) {
+      throw new Error(`Invalid PBKDF2 iterations ${iterations}: must be a positive integer`);
+    }
+  } else if (options.key instanceof Uint8Array) {
+    if (options.key.byteLength < 16) {
+      throw new Error('AES-GCM key must be at least 16 bytes long');
+    }
+  } else if (options.key?.algorithm.name !== 'HKDF') {
+    throw new Error('AES-GCM key must be raw bytes or an HKDF CryptoKey');
+  }
+
+  // PBKDF2 is deliberately slow, so stretched secrets are cached by salt and iterations
+  const secrets = new Map<string, Promise<CryptoKey>>();
+  let write_pbkdf2: { salt: string; iterations: number } | null = null;
+  let raw_secret: Promise<CryptoKey> | null = null;
+
+  /** Returns the HKDF key material for a payload's PBKDF2 parameters */
+  function secretFor(pbkdf2: AesGcmHeader['pbkdf2'] | undefined): Promise<CryptoKey> {
+    if (options.passphrase === undefined) {
+      if (pbkdf2) {
+        throw new Error('Payload was encrypted with a passphrase, but a key was provided');
+      }
+      raw_secret ??= importSecret(options.key);
+      return raw_secret;
+    }
+
+    if (!pbkdf2) {
+      throw new Error('Payload was encrypted with a key, but a passphrase was provided');
+    }
+    const cache_key = `${pbkdf2.iterations}:${pbkdf2.salt}`;
+    let secret = secrets.get(cache_key);
+    if (!secret) {
+      secret = stretchPassphrase(options.passphrase, base64ToBytes(pbkdf2.salt), pbkdf2.iterations);
+      secrets.set(cache_key, secret);
+      // A failed derivation must not poison the cache
+      secret.catch(() => secrets.delete(cache_key));
+    }
+    return secret;
+  }
+
+  return {
+    keyId: options.keyId,
+
+    async encrypt(payload: Uint8Array, context: EncryptionContext): Promise<Uint8Array> {
+      let pbkdf2: AesGcmHeader['pbkdf2'];
+      if (options.passphrase !== undefined) {
+        write_pbkdf2 ??= { salt: bytesToBase64(randomBytes(16)), iterations };
+        pbkdf2 = { hash: 'SHA-256', ...write_pbkdf2 };
+      }
+
+      const salt = randomBytes(16);
+      const iv = randomBytes(12);
+      const key = await deriveAesKey(await secretFor(pbkdf2), salt, 'encrypt');
+      const ciphertext = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv, additionalData: additionalData(context) },
+        key,
+        payload
+      );
+
+      const header: AesGcmHeader = {
+        version: 1,
+        cipher: 'AES-256-GCM',
+        ...(pbkdf2 && { pbkdf2 }),
+        salt: bytesToBase64(salt),
+        iv: bytesToBase64(iv)
+      };
+      const header_bytes = new TextEncoder().encode(`${JSON.stringify(header)}\n`);
+
+      const output = new Uint8Array(header_bytes.byteLength + ciphertext.byteLength);
+      output.set(header_bytes, 0);
+      output.set(new Uint8Array(ciphertext), header_bytes.byteLength);
+      return output;
+    },
+
+    async decrypt(payload: Uint8Array, context: EncryptionContext): Promise<Uint8Array> {
+      const header_end = payload.indexOf(NEWLINE);
+      if (header_end === -1) {
+        throw new Error('Payload is not AES-GCM encrypted');
+      }
+
+      let header: AesGcmHeader;
+      try {
+        header = JSON.parse(new TextDecoder().decode(payload.subarray(0, header_end)));
+      } catch (error) {
+        throw new Error('Payload is not AES-GCM encrypted', { cause: error });
+      }
+      if (header.version !== 1 || header.cipher !== 'AES-256-GCM') {
+        throw new Error(`Unsupported AES-GCM payload version ${header.version} (${header.cipher})`);
+      }
+
+      const key = await deriveAesKey(await secretFor(header.pbkdf2), base64ToBytes(header.salt), 'decrypt');
+      try {
+        const plaintext = await crypto.subtle.decrypt(
+          {
+            name: 'AES-GCM',
+            iv: base64ToBytes(header.iv),
+            additionalData: additionalData(context)
+          },
+          key,
+          payload.subarray(header_end + 1)
+        );
+        return new Uint8Array(plaintext);
+      } catch (error) {
+        // GCM does not tell a wrong key apart from tampering
+        throw new Error(
+          `Failed to decrypt ${context.filename}: wrong key, or the data was tampered with or belongs to another file`,
+          { cause: error }
+        );
+      }
+    }
+  };
+}
+
+/**
+ * Creates a key provider for the `keyProvider` adapter option that turns the key passed
+ * to `unlock()` into AES-256-GCM encryption: strings are passphrases, bytes and
+ * `CryptoKey`s are raw keys.
+ */
+export function aesGcmKeyProvider(options: { keyId?: string; iterations?: number } = {}): KeyProvider {
+  return key => typeof key === 'string'
+    ? createAesGcmEncryption({ passphrase: key, keyId: options.keyId, iterations: options.iterations })
+    : createAesGcmEncryption({ key, keyId: options.keyId });
+}
+
+/**
+ * Authenticated data binding a payload to its file and, with rollback protection, its
+ * generation. Filenames cannot contain newlines, so the two never run together.
+ */
+function additionalData(context: EncryptionContext): Uint8Array {
+  const bound = context.generation === undefined ? context.filename : `${context.filename}\n${context.generation}`;
+  return new TextEncoder().encode(bound);
+}
+
+/** Imports a raw secret as HKDF key material */
+async function importSecret(key: Uint8Array | CryptoKey): Promise<CryptoKey> {
+  if (!(key instanceof Uint8Array)) return key;
+  return crypto.subtle.importKey('raw', key, 'HKDF', false, ['deriveKey']);
+}
+
+/** Stretches a passphrase into HKDF key material with PBKDF2-HMAC-SHA256 */
+async function stretchPassphrase(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const passphrase_key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    passphrase_key,
+    256
+  );
+  return crypto.subtle.importKey('raw', bits, 'HKDF', false, ['deriveKey']);
+}
+
+/** Derives the AES-256-GCM key of a single write */
+async function deriveAesKey(secret: CryptoKey, salt: Uint8Array, usage: KeyUsage): Promise<CryptoKey> {
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: HKDF_INFO },
+    secret,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    [usage]
+  );
+}
+
+/** Returns cryptographically random bytes */
+function randomBytes(length: number): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
@@ -0,0 +1,142 @@
+import { IntegrityError } from './errors';
+import { signHeader } from './signing';
+
+/** Marks the start of an enveloped file; legacy files are bare payloads */
+const ENVELOPE_MAGIC = 'SDBT';
+
+/** Current version of the envelope format */
+export const ENVELOPE_VERSION = 1;
+
+/** How the payload inside the envelope is encoded: a serializer format, or `encrypted` */
+export type PayloadCodec = 'json' | 'msgpack' | 'cbor' | 'encrypted' | (string & {});
+
+/** Header written in front of the payload */
+export interface EnvelopeHeader {
+  /** Envelope format version */
+  version: number;
+  /** Encoding of the payload */
+  codec: PayloadCodec;
+  /** Hex-encoded SHA-256 of the payload */
+  sha256: string;
+  /** Size of the payload in bytes */
+  size: number;
+  /** Number of items in the payload */
+  itemCount: number;
+  /** Schema version of the items, if the adapter is configured with one */
+  schemaVersion?: number;
+  /** Compression applied to the serialized items before encryption; absent means none */
+  compression?: string;
+  /** Id of the key the payload was encrypted with */
+  keyId?: string;
+  /** Write counter, if the adapter has rollback protection */
+  generation?: number;
+  /** Base64 HMAC-SHA256 of the rest of the header, if the adapter has an integrity key */
+  hmac?: string;
+}
+
+/** A verified envelope split into its header and payload */
+export interface Envelope {
+  header: EnvelopeHeader;
+  payload: Uint8Array;
+}
+
+const MAGIC_BYTES = new TextEncoder().encode(`${ENVELOPE_MAGIC} `);
+const NEWLINE = 0x0a;
+
+/**
+ * Computes the hex-encoded SHA-256 digest of data using WebCrypto
+ */
+export async function sha256Hex(data: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Wraps a payload in an envelope: `SDBT <json header>\n<payload>`, signing the header
+ * when an HMAC key is given
+ */
+export async function createEnvelope(
+  payload: Uint8Array,
+  info: {
+    codec: PayloadCodec;
+    itemCount: number;
+    schemaVersion?: number;
+    compression?: string;
+    keyId?: string;
+    generation?: number;
+  },
+  hmac_key?: CryptoKey
+): Promise<Uint8Array> {
+  const header: EnvelopeHeader = {
+    version: ENVELOPE_VERSION,
+    codec: info.codec,
+    sha256: await sha256Hex(payload),
+    size: payload.byteLength,
+    itemCount: info.itemCount,
+    ...(info.schemaVersion !== undefined && { schemaVersion: info.schemaVersion }),
+    ...(info.compression && info.compression !== 'none' && { compression: info.compression }),
+    ...(info.keyId !== undefined && { keyId: info.keyId }),
+    ...(info.generation !== undefined && { generation: info.generation })
+  };
+  if (hmac_key) {
+    header.hmac = await signHeader(header, hmac_key);
+  }
+  const header_bytes = new TextEncoder().encode(`${ENVELOPE_MAGIC} ${JSON.stringify(header)}\n`);
+
+  const contents = new Uint8Array(header_bytes.byteLength + payload.byteLength);
+  contents.set(header_bytes, 0);
+  contents.set(payload, header_bytes.byteLength);
+  return contents;
+}
+
+/**
+ * Checks whether file contents start with the envelope magic
+ */
+export function isEnveloped(contents: Uint8Array): boolean {
+  if (contents.byteLength < MAGIC_BYTES.byteLength) return false;
+  return MAGIC_BYTES.every((byte, index) => contents[index] === byte);
+}
+
+/**
+ * Splits enveloped file contents into header and payload and verifies the checksum.
+ * Returns null for legacy bare files.
+ *
+ * @throws {IntegrityError} If the header is malformed or the payload does not match it
+ */
+export async function openEnvelope(contents: Uint8Array, filename: string): Promise<Envelope | null> {
+  if (!isEnveloped(contents)) return null;
+
+  const header_end = contents.indexOf(NEWLINE);
+  if (header_end === -1) {
+    throw new IntegrityError(`Envelope header of ${filename} is truncated`, filename);
+  }
+
+  let header: EnvelopeHeader;
+  try {
+    header = JSON.parse(new TextDecoder().decode(contents.subarray(MAGIC_BYTES.byteLength, header_end)));
+  } catch (error) {
+    throw new IntegrityError(`Envelope header of ${filename} is malformed`, filename, { cause: error });
+  }
+
+  if (typeof header.version !== 'number' || header.version > ENVELOPE_VERSION) {
+    throw new IntegrityError(
+      `Unsupported envelope version ${header.version} in ${filename}`,
+      filename
+    );
+  }
+
+  const payload = contents.subarray(header_end + 1);
+  if (payload.byteLength !== header.size) {
+    throw new IntegrityError(
+      `Payload size mismatch in ${filename}: expected ${header.size} bytes, found ${payload.byteLength}`,
+      filename
+    );
+  }
+
+  const checksum = await sha256Hex(payload);
+  if (checksum !== header.sha256) {
+    throw new IntegrityError(`Checksum mismatch in ${filename} - file is corrupted`, filename);
+  }
+
+  return { header, payload };
+}
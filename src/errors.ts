@@ -0,0 +1,280 @@
+/**
+ * Stable codes of the errors the adapter throws, so callers can handle them without
+ * matching messages
+ */
+export type AdapterErrorCode =
+  | 'DECRYPTION_FAILED'
+  | 'VALIDATION_FAILED'
+  | 'MIGRATION_FAILED'
+  | 'READ_FAILED'
+  | 'WRITE_FAILED'
+  | 'CALLBACK_FAILED'
+  | 'INVALID_PATH'
+  | 'INVALID_CONFIGURATION'
+  | 'INTEGRITY_CHECK_FAILED'
+  | 'TAMPERED'
+  | 'ROLLBACK_DETECTED'
+  | 'UNSUPPORTED_SCHEMA_VERSION'
+  | 'LOCKED';
+
+/**
+ * The adapter operation an error was thrown from; `create` is createTauriFileSystemAdapter()
+ * itself and `init` the creation of the file on register()
+ */
+export type AdapterPhase = 'create' | 'init' | 'load' | 'save' | 'restore' | 'rekey' | 'unlock' | 'lock';
+
+export interface AdapterErrorOptions extends ErrorOptions {
+  /** The adapter operation that failed */
+  phase?: AdapterPhase;
+}
+
+/**
+ * Base class of the errors the adapter throws. The underlying error, if any, is the `cause`.
+ */
+export abstract class AdapterError extends Error {
+  abstract readonly code: AdapterErrorCode;
+  /** The collection file the error concerns */
+  readonly filename: string;
+  /** The adapter operation that failed */
+  readonly phase: AdapterPhase | undefined;
+
+  constructor(message: string, filename: string, options?: AdapterErrorOptions) {
+    super(message, options);
+    this.filename = filename;
+    this.phase = options?.phase;
+  }
+}
+
+/**
+ * Records the adapter operation that failed on an error and on the typed errors in its
+ * chain of causes, unless they already name one. Errors thrown by helpers shared between
+ * operations get their phase this way, from the operation they surface through.
+ */
+export function withPhase(error: unknown, phase: AdapterPhase): unknown {
+  const seen = new Set<unknown>();
+  for (let current = error; current instanceof Error && !seen.has(current); current = current.cause) {
+    seen.add(current);
+    if (current instanceof AdapterError && current.phase === undefined) {
+      (current as { phase: AdapterPhase | undefined }).phase = phase;
+    }
+  }
+  return error;
+}
+
+/**
+ * Thrown when a collection file or field cannot be decrypted, e.g. with the wrong key,
+ * or when plaintext is found where encrypted data is required
+ */
+export class DecryptionError extends AdapterError {
+  readonly code = 'DECRYPTION_FAILED';
+
+  constructor(message: string, filename: string, options?: AdapterErrorOptions) {
+    super(message, filename, options);
+    this.name = 'DecryptionError';
+  }
+}
+
+/**
+ * Thrown when stored items fail the data validator, or a backup to restore does not decode
+ */
+export class ValidationError extends AdapterError {
+  readonly code = 'VALIDATION_FAILED';
+
+  constructor(message: string, filename: string, options?: AdapterErrorOptions) {
+    super(message, filename, options);
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * Thrown when migrating items from an older schema version fails, or no migration
+ * covers a version step
+ */
+export class MigrationError extends AdapterError {
+  readonly code = 'MIGRATION_FAILED';
+
+  constructor(message: string, filename: string, options?: AdapterErrorOptions) {
+    super(message, filename, options);
+    this.name = 'MigrationError';
+  }
+}
+
+/**
+ * Thrown when load() fails for a reason no more specific error describes, e.g. a storage
+ * failure or a cross-window lock that could not be taken; the `cause` tells why
+ */
+export class ReadError extends AdapterError {
+  readonly code = 'READ_FAILED';
+
+  constructor(message: string, filename: string, options?: AdapterErrorOptions) {
+    super(message, filename, options);
+    this.name = 'ReadError';
+  }
+}
+
+/**
+ * Thrown when save(), restoreBackup(), rekey() or creating the file did not write the
+ * collection; the `cause` tells why, e.g. a storage failure, a file that must not be
+ * overwritten or a cross-window lock that could not be taken
+ */
+export class WriteError extends AdapterError {
+  readonly code = 'WRITE_FAILED';
+
+  constructor(message: string, filename: string, options?: AdapterErrorOptions) {
+    super(message, filename, options);
+    this.name = 'WriteError';
+  }
+}
+
+/**
+ * Thrown when the registered change callback fails and `propagateCallbackErrors` is enabled
+ */
+export class CallbackError extends AdapterError {
+  readonly code = 'CALLBACK_FAILED';
+
+  constructor(message: string, filename: string, options?: AdapterErrorOptions) {
+    super(message, filename, options);
+    this.name = 'CallbackError';
+  }
+}
+
+/**
+ * Thrown for a filename that is unsafe to use as a path, or a backup id that names no backup
+ */
+export class PathError extends AdapterError {
+  readonly code = 'INVALID_PATH';
+
+  constructor(message: string, filename: string, options?: AdapterErrorOptions) {
+    super(message, filename, options);
+    this.name = 'PathError';
+  }
+}
+
+/**
+ * Thrown for adapter options that cannot be combined or are invalid, or when an operation
+ * needs an option the adapter was created without, e.g. rekey() without encryption
+ */
+export class ConfigurationError extends AdapterError {
+  readonly code = 'INVALID_CONFIGURATION';
+
+  constructor(message: string, filename: string, options?: AdapterErrorOptions) {
+    super(message, filename, options);
+    this.name = 'ConfigurationError';
+  }
+}
+
+/**
+ * Thrown when a persisted file fails its integrity check, e.g. a checksum mismatch
+ * caused by truncation or bit-rot
+ */
+export class IntegrityError extends AdapterError {
+  readonly code: 'INTEGRITY_CHECK_FAILED' | 'TAMPERED' | 'ROLLBACK_DETECTED' = 'INTEGRITY_CHECK_FAILED';
+
+  constructor(message: string, filename: string, options?: AdapterErrorOptions) {
+    super(message, filename, options);
+    this.name = 'IntegrityError';
+  }
+}
+
+/**
+ * Thrown when the HMAC signature of a collection file is missing or does not match,
+ * meaning the file was edited outside the app or signed with another key
+ */
+export class TamperError extends IntegrityError {
+  readonly code = 'TAMPERED';
+  /** Whether the signature was absent or did not verify */
+  readonly reason: 'missing' | 'invalid';
+
+  constructor(filename: string, reason: 'missing' | 'invalid', options?: AdapterErrorOptions) {
+    super(
+      reason === 'missing'
+        ? `${filename} is not signed, but an integrity key is configured - it may have been replaced outside the app`
+        : `Signature mismatch in ${filename} - the file was modified outside the app or signed with another key`,
+      filename,
+      options
+    );
+    this.name = 'TamperError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Thrown when a collection file is older than the last generation the adapter wrote or
+ * loaded, e.g. because an old copy was put back by hand or by a sync tool
+ */
+export class RollbackError extends IntegrityError {
+  readonly code = 'ROLLBACK_DETECTED';
+  /** Generation recorded in the file */
+  readonly storedGeneration: number;
+  /** Lowest generation the adapter accepts */
+  readonly expectedGeneration: number;
+
+  constructor(filename: string, storedGeneration: number, expectedGeneration: number, options?: AdapterErrorOptions) {
+    super(
+      `${filename} has generation ${storedGeneration}, but generation ${expectedGeneration} was already seen - ` +
+      'an older copy of the file may have been restored',
+      filename,
+      options
+    );
+    this.name = 'RollbackError';
+    this.storedGeneration = storedGeneration;
+    this.expectedGeneration = expectedGeneration;
+  }
+}
+
+/**
+ * Thrown when a collection file was written with a newer schema version than the
+ * adapter supports, so it is neither read nor overwritten
+ */
+export class SchemaVersionError extends AdapterError {
+  readonly code = 'UNSUPPORTED_SCHEMA_VERSION';
+  /** Schema version recorded in the file */
+  readonly storedVersion: number;
+  /** Newest schema version the adapter supports */
+  readonly supportedVersion: number;
+
+  constructor(filename: string, storedVersion: number, supportedVersion: number, options?: AdapterErrorOptions) {
+    super(
+      `${filename} has schema version ${storedVersion}, but only versions up to ` +
+      `${supportedVersion} are supported. It was probably written by a newer version of the app.`,
+      filename,
+      options
+    );
+    this.name = 'SchemaVersionError';
+    this.storedVersion = storedVersion;
+    this.supportedVersion = supportedVersion;
+  }
+}
+
+/**
+ * Thrown when a collection that gets its key from a `keyProvider` is used before
+ * `unlock()` was called, or after `lock()`
+ */
+export class LockedError extends AdapterError {
+  readonly code = 'LOCKED';
+
+  constructor(filename: string, options?: AdapterErrorOptions) {
+    super(`${filename} is locked; call unlock() with its key first`, filename, options);
+    this.name = 'LockedError';
+  }
+}
+
+/**
+ * Thrown by in-memory storage when an injected fault triggers, or by any call after an
+ * injected crash until the storage is restarted. Like the errors of other storage backends
+ * it is not an `AdapterError`, but the `cause` of one.
+ */
+export class StorageFaultError extends Error {
+  readonly code = 'STORAGE_FAULT';
+  /** The storage operation that failed */
+  readonly operation: string;
+  /** The file the operation was called with; empty for `list` */
+  readonly filename: string;
+
+  constructor(message: string, operation: string, filename: string) {
+    super(message);
+    this.name = 'StorageFaultError';
+    this.operation = operation;
+    this.filename = filename;
+  }
+}
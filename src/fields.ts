@@ -0,0 +1,85 @@
+/** Key of the object that replaces an encrypted field value in the stored item */
+const ENCRYPTED_KEY = '$encrypted';
+
+/** A stored field value: `{ "$encrypted": "<ciphertext>" }` */
+export interface EncryptedField {
+  [ENCRYPTED_KEY]: string;
+}
+
+/**
+ * Splits field paths like `notes.body` into their segments
+ *
+ * @throws {Error} If a path is empty or has an empty segment
+ */
+export function parseFieldPaths(paths: string[]): string[][] {
+  return paths.map((path) => {
+    const segments = typeof path === 'string' ? path.split('.') : [];
+    if (segments.length === 0 || segments.some(segment => !segment)) {
+      throw new Error(`Invalid encrypted field path ${JSON.stringify(path)}`);
+    }
+    return segments;
+  });
+}
+
+/**
+ * Checks whether a stored field value holds ciphertext
+ */
+export function isEncryptedField(value: unknown): value is EncryptedField {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    Object.keys(value).length === 1 && typeof (value as Record<string, unknown>)[ENCRYPTED_KEY] === 'string';
+}
+
+/**
+ * Creates the stored form of an encrypted field value
+ */
+export function encryptedField(ciphertext: string): EncryptedField {
+  return { [ENCRYPTED_KEY]: ciphertext };
+}
+
+/**
+ * Replaces the value at each path of each item with the result of `transform`.
+ * Objects along the paths are copied, so the input items are never modified.
+ * A path leading through an array applies to each of its elements, so `contacts.ssn`
+ * covers the `ssn` of every contact. Paths that are absent from an item, or lead
+ * through a primitive, are skipped.
+ */
+export async function mapFields<T>(
+  items: T[],
+  paths: string[][],
+  transform: (value: unknown, path: string) => Promise<unknown>
+): Promise<T[]> {
+  const mapped: T[] = [];
+  for (const item of items) {
+    let result: unknown = item;
+    for (const segments of paths) {
+      result = await mapField(result, segments, 0, transform);
+    }
+    mapped.push(result as T);
+  }
+  return mapped;
+}
+
+async function mapField(
+  value: unknown,
+  segments: string[],
+  index: number,
+  transform: (value: unknown, path: string) => Promise<unknown>
+): Promise<unknown> {
+  if (typeof value !== 'object' || value === null) return value;
+  if (Array.isArray(value)) {
+    const elements: unknown[] = [];
+    for (const element of value) {
+      elements.push(await mapField(element, segments, index, transform));
+    }
+    return elements.every((element, position) => element === value[position]) ? value : elements;
+  }
+
+  const record = value as Record<string, unknown>;
+  const key = segments[index];
+  if (!Object.prototype.hasOwnProperty.call(record, key) || record[key] === undefined) return value;
+
+  const next = index === segments.length - 1
+    ? await transform(record[key], segments.join('.'))
+    : await mapField(record[key], segments, index + 1, transform);
+  return next === record[key] ? value : { ...record, [key]: next };
+}
@@ -1,74 +1,188 @@
 import {
   createPersistenceAdapter,
   type PersistenceAdapter,
-  type LoadResponse
+  type LoadResponse,
+  type Changeset
 } from '@signaldb/core';
+import { emit, listen, type UnlistenFn } from '@tauri-apps/api/event';
 import {
-  BaseDirectory,
-  exists,
-  readFile,
-  writeFile,
-  remove
-} from '@tauri-apps/plugin-fs';
-import { SecurityOptions, AdapterOptions } from './types';
+  SecurityOptions,
+  AdapterOptions,
+  Serializer,
+  PayloadEncryption,
+  UnlockKey,
+  RecoveryEvent,
+  BackupInfo,
+  StorageBackend,
+  StorageStat,
+  TauriFileSystemAdapter
+} from './types';
+import { createDefaultStorage } from './storage';
+import { cleanupOldBackups, listBackupFiles, writeBackupFile } from './backups';
+import { createEnvelope, openEnvelope, type Envelope, type EnvelopeHeader } from './envelope';
+import {
+  AdapterError,
+  CallbackError,
+  ConfigurationError,
+  DecryptionError,
+  IntegrityError,
+  LockedError,
+  MigrationError,
+  PathError,
+  ReadError,
+  RollbackError,
+  SchemaVersionError,
+  TamperError,
+  ValidationError,
+  WriteError,
+  withPhase,
+  type AdapterPhase
+} from './errors';
+import { enqueueWrite, writeQueueKey } from './queue';
+import { acquireFileLock, type FileLockOptions, type ReleaseLock } from './lock';
+import { jsonSerializer } from './serializers';
+import { compress, decompress, isCompression, type Compression } from './compression';
+import { checkIntegrityKey, importIntegrityKey, verifyHeader } from './signing';
+import { encryptedField, isEncryptedField, mapFields, parseFieldPaths } from './fields';
+import { base64ToBytes, bytesToBase64 } from './binary';
+import { createPendingChanges, mergeChanges, toChangeset, type PendingChanges } from './changes';
+import {
+  bumpWriteGeneration,
+  createItemCache,
+  isCacheFresh,
+  writeGeneration,
+  type ItemCache
+} from './cache';
+
+/** Event broadcast to every window after a collection file was written */
+const CHANGE_EVENT = 'signaldb-adapter-tauri://changed';
+
+/** Payload of {@link CHANGE_EVENT} */
+interface ChangeEventPayload {
+  filename: string;
+  /** Id of the storage the file is in, the base directory for Tauri storage */
+  baseDir: StorageBackend['id'];
+  /** Id of the adapter instance that wrote the file */
+  origin: string;
+}
 
 /**
  * Validates and sanitizes filename to prevent path traversal attacks
+ *
+ * @throws {PathError} If the filename is not safe to use
  */
 function validateFilename(filename: string): void {
   if (!filename || typeof filename !== 'string') {
-    throw new Error('Filename must be a non-empty string');
+    throw new PathError('Filename must be a non-empty string', String(filename), { phase: 'create' });
   }
 
   // Check for path traversal attempts
   if (filename.includes('..') || filename.includes('/') || filename.includes('\\')) {
-    throw new Error('Invalid filename: possible path traversal detected');
+    throw new PathError('Invalid filename: possible path traversal detected', filename, { phase: 'create' });
   }
 
   // Check for other dangerous characters
   if (filename.includes('\0') || filename.includes('\n') || filename.includes('\r')) {
-    throw new Error('Invalid filename: contains null or newline characters');
+    throw new PathError('Invalid filename: contains null or newline characters', filename, { phase: 'create' });
   }
 
   // Ensure reasonable length
   if (filename.length > 255) {
-    throw new Error('Filename too long');
+    throw new PathError('Filename too long', filename, { phase: 'create' });
   }
 }
 
 /**
- * Default data validator for decrypted content
+ * Runs an adapter operation, recording it as the phase of the typed errors it throws
  */
-function defaultDataValidator<T>(data: unknown): data is T[] {
-  return Array.isArray(data);
+async function inPhase<R>(phase: AdapterPhase, operation: () => Promise<R>): Promise<R> {
+  try {
+    return await operation();
+  } catch (error) {
+    throw withPhase(error, phase);
+  }
 }
 
 /**
- * Creates a backup filename with timestamp
+ * Default data validator for decrypted content
  */
-function createBackupFilename(filename: string): string {
-  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-  return `${filename}.backup.${timestamp}`;
+function defaultDataValidator<T>(data: unknown): data is T[] {
+  return Array.isArray(data);
 }
 
 /**
- * Cleans up old backup files, keeping only the most recent ones
+ * Writes data to a temporary file and promotes it over the target with a rename,
+ * so the target is always either the previous or the new version on disk
  */
-async function cleanupOldBackups(
+async function writeFileAtomic(
   filename: string,
-  maxBackups: number,
-  baseDir: import('@tauri-apps/plugin-fs').BaseDirectory
+  data: Uint8Array,
+  storage: StorageBackend
 ): Promise<void> {
+  // Random suffix keeps overlapping writes within the same millisecond apart
+  const temp_filename = `${filename}.tmp.${Date.now()}.${Math.random().toString(36).slice(2, 10)}`;
+
   try {
-    // This is a simplified implementation - in a real scenario, you'd want to
-    // list all files in the directory and filter for backup files
-    // For now, we'll just log that cleanup would happen
-    console.debug(`Backup cleanup for ${filename} - keeping max ${maxBackups} backups`);
+    // Ask the storage to flush the contents before the temporary file becomes visible as the target
+    await storage.write(temp_filename, data, { sync: true });
+
+    // Verify the temporary file was written correctly before promoting it
+    let temp_contents: Uint8Array | null = null;
+    try {
+      temp_contents = await storage.read(temp_filename);
+    } catch (verifyError) {
+      // If the file can't be read back, continue anyway for compatibility
+      console.warn(`Failed to verify temporary file ${temp_filename}:`, verifyError);
+    }
+    if (temp_contents && !bytesEqual(temp_contents, data)) {
+      throw new IntegrityError('Temporary file verification failed - data mismatch', filename);
+    }
+
+    // rename() replaces the existing file in a single step
+    await storage.rename(temp_filename, filename);
+    bumpWriteGeneration(writeQueueKey(filename, storage));
   } catch (error) {
-    console.warn(`Failed to cleanup old backups for ${filename}:`, error);
+    // Clean up temp file on error, leaving the previous version untouched
+    try {
+      if (await storage.exists(temp_filename)) {
+        await storage.remove(temp_filename);
+      }
+    } catch (cleanupError) {
+      console.warn(`Failed to cleanup temp file after error:`, cleanupError);
+    }
+    throw error;
   }
 }
 
+/**
+ * Lists leftover temporary files of an interrupted save, newest first
+ */
+async function listTempFiles(filename: string, storage: StorageBackend): Promise<string[]> {
+  const prefix = `${filename}.tmp.`;
+  const names = await storage.list();
+
+  return names
+    .filter(name => name.startsWith(prefix))
+    .map(name => ({
+      name,
+      timestamp: Number.parseInt(name.slice(prefix.length), 10)
+    }))
+    .filter(entry => Number.isFinite(entry.timestamp))
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .map(entry => entry.name);
+}
+
+/**
+ * Compares two byte arrays for equality
+ */
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.byteLength !== b.byteLength) return false;
+  for (let i = 0; i < a.byteLength; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
+
 /**
  * Creates a persistence adapter for SignalDB that uses Tauri's filesystem API.
  * 
@@ -80,23 +194,31 @@ async function cleanupOldBackups(
  * - Cross-platform Tauri filesystem integration
  * - Graceful error handling and recovery
  * - Security hardening against common attacks
- * - Optional backup creation (disabled by default for sync scenarios)
+ * - Optional backup creation with rotation and restore (disabled by default for sync scenarios)
  * 
  * @template T - The type of items to store, must have an ID field and can contain other properties
  * @template ID - The type of the ID field, defaults to string
  * @param {string} filename - The name of the file to store data in (sanitized for security)
  * @param {AdapterOptions} [options] - Configuration options including security settings
- * @returns {PersistenceAdapter<T, ID>} A configured persistence adapter instance
+ * @returns {TauriFileSystemAdapter<T, ID>} A configured persistence adapter instance
  * @throws {Error} If there is an error during file operations or security validation fails
  */
 export function createTauriFileSystemAdapter<T extends { id: ID } & Record<string, any>, ID = string>(
   filename: string,
   options?: AdapterOptions<T>
-): PersistenceAdapter<T, ID> {
+): TauriFileSystemAdapter<T, ID> {
   // Validate filename for security
   validateFilename(filename);
+  // Options are checked before anything is read or written
+  const invalidOptions = (message: string) => new ConfigurationError(message, filename, { phase: 'create' });
 
-  const base_dir = options?.base_dir || BaseDirectory.AppLocalData;
+  if (options?.storage && options.base_dir !== undefined) {
+    throw invalidOptions('base_dir only applies to the default Tauri storage and cannot be combined with storage');
+  }
+  const storage = options?.storage ?? createDefaultStorage(options?.base_dir, options?.browserFallback);
+  if (options?.watchExternalChanges && !storage.watch) {
+    throw invalidOptions('watchExternalChanges requires a storage that implements watch()');
+  }
   const security: SecurityOptions = {
     enforceEncryption: false,
     allowPlaintextFallback: false,
@@ -105,11 +227,51 @@ export function createTauriFileSystemAdapter<T extends { id: ID } & Record<strin
     dataValidator: defaultDataValidator,
     createBackups: false, // Disable backups by default for sync scenarios
     maxBackups: 5, // Keep only the last 5 backups if enabled
+    recoverFromBackups: false,
+    enforceIntegrity: false,
+    allowUnsignedData: false,
+    allowRollback: false,
     ...options?.security
   };
 
+  if (options?.encryption && (options.encrypt || options.decrypt)) {
+    throw invalidOptions('Provide either encryption or encrypt/decrypt functions, not both');
+  }
+  if (options?.keyProvider && (options.encryption || options.encrypt || options.decrypt)) {
+    throw invalidOptions('keyProvider supplies the encryption on unlock() and cannot be combined with encryption or encrypt/decrypt functions');
+  }
+  if (options?.serializer && (options.encrypt || options.decrypt)) {
+    throw invalidOptions(
+      'encrypt/decrypt functions serialize items themselves and cannot be combined with a serializer. ' +
+      'Use the encryption option instead.'
+    );
+  }
+  const compression = options?.compression ?? 'none';
+  if (!isCompression(compression)) {
+    throw invalidOptions(`Invalid compression ${compression}: must be 'gzip', 'deflate' or 'none'`);
+  }
+  if (compression !== 'none' && (options?.encrypt || options?.decrypt)) {
+    throw invalidOptions(
+      'encrypt/decrypt functions serialize items themselves and cannot be combined with compression. ' +
+      'Use the encryption option instead.'
+    );
+  }
+  const serializer: Serializer<T> = options?.serializer ?? jsonSerializer;
+  const payload_format = serializer.format ?? 'custom';
+  const has_payload_encryption = Boolean(options?.encryption || options?.keyProvider);
+  const is_encrypted = Boolean(options?.encrypt || has_payload_encryption);
+  const can_decrypt = Boolean(options?.decrypt || has_payload_encryption);
+
+  // Field-level encryption keeps the payload itself plaintext
+  const encrypted_fields = parseFieldPaths(options?.encryptedFields ?? []);
+  const encrypts_fields = encrypted_fields.length > 0;
+  if (encrypts_fields && (!is_encrypted || !can_decrypt)) {
+    throw invalidOptions('encryptedFields requires encryption, a keyProvider or encrypt/decrypt functions');
+  }
+  const encrypts_payload = is_encrypted && !encrypts_fields;
+
   // Security check: warn about unencrypted storage
-  if (!options?.encrypt && !security.enforceEncryption) {
+  if (!is_encrypted && !security.enforceEncryption) {
     console.warn(
       `[SECURITY WARNING] No encryption function provided for ${filename}. ` +
       'Data will be stored in plaintext. Consider enabling encryption for sensitive data.'
@@ -125,9 +287,35 @@ export function createTauriFileSystemAdapter<T extends { id: ID } & Record<strin
     );
   }
 
+  // Security check: enforce signing if required
+  if (security.enforceIntegrity && options?.integrityKey === undefined) {
+    throw invalidOptions('Integrity is enforced but no integrityKey is provided. This is a security requirement.');
+  }
+  if (options?.integrityKey !== undefined) {
+    checkIntegrityKey(options.integrityKey);
+  }
+  let hmac_key: Promise<CryptoKey> | null = null;
+
+  // The generation is only trustworthy if something authenticates the header it is stored in
+  const rollback_protection = Boolean(options?.rollbackProtection);
+  if (rollback_protection && options?.integrityKey === undefined && !(has_payload_encryption && !encrypts_fields)) {
+    throw invalidOptions(
+      'rollbackProtection requires an integrityKey or payload encryption, ' +
+      'so that the recorded generation cannot be edited'
+    );
+  }
+  const metadata_filename = `${filename}.meta`;
+  // Highest generation this adapter wrote or accepted
+  let last_generation = 0;
+
+  const schema_version = options?.schemaVersion ?? 0;
+  if (!Number.isInteger(schema_version) || schema_version < 0) {
+    throw invalidOptions(`Invalid schemaVersion ${options?.schemaVersion}: must be a non-negative integer`);
+  }
+
   // Security check: enforce encryption if required
-  if (security.enforceEncryption && (!options?.encrypt || !options?.decrypt)) {
-    throw new Error(
+  if (security.enforceEncryption && (!is_encrypted || !can_decrypt)) {
+    throw invalidOptions(
       'Encryption is enforced but encrypt/decrypt functions are not provided. ' +
       'This is a security requirement.'
     );
@@ -135,166 +323,1050 @@ export function createTauriFileSystemAdapter<T extends { id: ID } & Record<strin
 
   let change_callback: ((data?: LoadResponse<T>) => void | Promise<void>) | null = null;
   let is_registered = false;
+  const write_queue_key = writeQueueKey(filename, storage);
 
-  return createPersistenceAdapter({
-    async register(onChange) {
-      change_callback = onChange;
-      is_registered = true;
+  // Last loaded or saved items, reused by save() while the file is unchanged
+  let item_cache: ItemCache<T> | null = null;
 
-      const fileExists = await exists(filename, { baseDir: base_dir });
+  // Encryption created by the keyProvider on unlock(); null while locked
+  let unlocked_encryption: PayloadEncryption | null = null;
 
-      if (!fileExists) {
-        let initial_data: string;
+  // Stops the file watcher, if watching external changes
+  let unwatch: (() => void) | null = null;
 
-        try {
-          if (options?.encrypt) {
-            initial_data = await options.encrypt([]);
-          } else {
-            initial_data = JSON.stringify([]);
-          }
+  // Multi-window coordination: cross-window lock and change broadcasts
+  const multi_window = options?.multiWindow
+    ? (typeof options.multiWindow === 'object' ? options.multiWindow : {})
+    : null;
+  const lock_options: FileLockOptions = {
+    // Waiting longer than the stale threshold lets a save break the lock of a crashed window
+    timeoutMs: multi_window?.lockTimeoutMs ?? 15_000,
+    staleMs: multi_window?.staleLockMs ?? 10_000,
+    retryMs: 25
+  };
+  const instance_id = crypto.randomUUID();
+  let unlisten: UnlistenFn | null = null;
 
-          await writeFile(filename, new TextEncoder().encode(initial_data), {
-            baseDir: base_dir
-          });
-        } catch (error) {
-          throw new Error(`Failed to initialize file ${filename}`, { cause: error });
-        }
+  // Coalesced write mode state
+  const write_debounce_ms = options?.writeDebounceMs ?? 0;
+  let flush_timer: ReturnType<typeof setTimeout> | null = null;
+  let pending_write: {
+    items: T[];
+    changes: PendingChanges<T>;
+    since: number;
+    promise: Promise<void>;
+    resolve: () => void;
+    reject: (error: unknown) => void;
+  } | null = null;
+
+  /**
+   * Strictly decodes file contents into items, without plaintext fallback. Contents
+   * meant to replace the collection file are also checked for rollback.
+   */
+  async function decodeItems(contents: Uint8Array, check_generation = false): Promise<T[]> {
+    const envelope = await openVerifiedEnvelope(contents);
+    if (check_generation) {
+      await checkGeneration(envelope);
+    }
+    checkEnvelopeCodec(envelope);
+    const stored_version = storedSchemaVersion(envelope);
+    const stored_compression = storedCompression(envelope);
+
+    const payload = envelope ? envelope.payload : contents;
+    if (isEmptyPayload(payload, stored_compression)) {
+      throw new IntegrityError(`${filename} is empty`, filename);
+    }
+
+    const data: unknown = can_decrypt
+      ? await decryptItems(payload, stored_compression, envelope?.header)
+      : await deserializeItems(payload, stored_compression);
+
+    let items: T[];
+    if (stored_version < schema_version) {
+      if (!Array.isArray(data)) {
+        throw new ValidationError('Data failed validation - possible corruption', filename);
+      }
+      checkEnvelopeItemCount(envelope, data);
+      items = await migrateItems(data, stored_version);
+    } else {
+      const validator = security.dataValidator || defaultDataValidator;
+      if (!validator<T>(data)) {
+        throw new ValidationError('Data failed validation - possible corruption', filename);
+      }
+      checkEnvelopeItemCount(envelope, data);
+      items = data;
+    }
+
+    if (check_generation) {
+      await acceptGeneration(envelope);
+    }
+    return items;
+  }
+
+  /**
+   * Serializes, encrypts and envelopes items for a write, returning the contents and the
+   * generation they carry; record the generation once the write succeeded. Contents that
+   * are rewritten without becoming newer, like re-encrypted backups, keep their generation.
+   */
+  async function encodeItems(
+    items: T[],
+    kept_generation?: number
+  ): Promise<{ contents: Uint8Array; generation?: number }> {
+    const generation = rollback_protection ? kept_generation ?? await latestGeneration() + 1 : undefined;
+    const contents = await encodeContents(await encryptItems(items, generation), items.length, generation);
+    return { contents, generation };
+  }
+
+  /**
+   * Wraps the payload in an envelope if enabled
+   */
+  async function encodeContents(payload: Uint8Array, itemCount: number, generation?: number): Promise<Uint8Array> {
+    const key_id = payloadEncryption()?.keyId;
+
+    // Versioned, compressed, key-id tagged, signed and generation-counted payloads need the header to be read back
+    if (!options?.envelope && options?.schemaVersion === undefined && compression === 'none' &&
+      key_id === undefined && options?.integrityKey === undefined && !rollback_protection) {
+      return payload;
+    }
+
+    return createEnvelope(payload, {
+      codec: encrypts_payload ? 'encrypted' : payload_format,
+      itemCount,
+      schemaVersion: options?.schemaVersion,
+      compression,
+      keyId: key_id,
+      generation
+    }, await integrityKey());
+  }
+
+  /**
+   * Returns the imported HMAC key, or undefined if the adapter does not sign files
+   */
+  async function integrityKey(): Promise<CryptoKey | undefined> {
+    if (options?.integrityKey === undefined) return undefined;
+    hmac_key ??= importIntegrityKey(options.integrityKey);
+    return hmac_key;
+  }
+
+  /**
+   * Opens the envelope and verifies its signature when an integrity key is configured
+   *
+   * @throws {TamperError} If the signature is wrong, or missing and unsigned data is not allowed
+   */
+  async function openVerifiedEnvelope(contents: Uint8Array): Promise<Envelope | null> {
+    const envelope = await openEnvelope(contents, filename);
+    const key = await integrityKey();
+    if (!key) return envelope;
+
+    const hmac = envelope?.header.hmac;
+    if (hmac === undefined) {
+      if (!security.allowUnsignedData) {
+        throw new TamperError(filename, 'missing');
+      }
+      console.warn(`[SECURITY WARNING] ${filename} is not signed. It will be signed on the next save.`);
+      return envelope;
+    }
+    if (typeof hmac !== 'string' || !await verifyHeader({ ...envelope!.header, hmac }, key)) {
+      throw new TamperError(filename, 'invalid');
+    }
+    return envelope;
+  }
+
+  /**
+   * Reads the write generation recorded in the envelope; files without one are generation 0
+   */
+  function storedGeneration(envelope: Envelope | null): number {
+    const generation = envelope?.header.generation ?? 0;
+    if (!Number.isSafeInteger(generation) || generation < 0) {
+      throw new IntegrityError(`Invalid generation ${generation} in ${filename}`, filename);
+    }
+    return generation;
+  }
+
+  /**
+   * Reads the generation mirrored in the metadata file, or 0 if there is none
+   */
+  async function readMetadataGeneration(): Promise<number> {
+    let contents: Uint8Array;
+    try {
+      contents = await storage.read(metadata_filename);
+    } catch {
+      return 0;
+    }
+
+    try {
+      const { generation } = JSON.parse(new TextDecoder().decode(contents));
+      if (Number.isSafeInteger(generation) && generation >= 0) return generation;
+    } catch {
+      // Reported below
+    }
+    console.warn(
+      `[SECURITY WARNING] ${metadata_filename} is corrupt. ` +
+      'Rollbacks of older files are only detected against generations seen in this session.'
+    );
+    return 0;
+  }
+
+  /**
+   * Returns the highest generation written or accepted, by this adapter or any other
+   * that mirrored it in the metadata file
+   */
+  async function latestGeneration(): Promise<number> {
+    last_generation = Math.max(last_generation, await readMetadataGeneration());
+    return last_generation;
+  }
+
+  /**
+   * Refuses contents older than the latest known generation, e.g. an old file put back
+   * by a sync tool, unless rollbacks are allowed
+   *
+   * @throws {RollbackError} If the contents are older and rollbacks are not allowed
+   */
+  async function checkGeneration(envelope: Envelope | null): Promise<void> {
+    if (!rollback_protection) return;
+
+    const stored_generation = storedGeneration(envelope);
+    const expected_generation = await latestGeneration();
+    if (stored_generation >= expected_generation) return;
+
+    if (!security.allowRollback) {
+      throw new RollbackError(filename, stored_generation, expected_generation);
+    }
+    console.warn(
+      `[SECURITY WARNING] ${filename} has generation ${stored_generation}, ` +
+      `older than the last seen generation ${expected_generation}. Loading it because allowRollback is set.`
+    );
+    await reportRecovery({
+      type: 'rollback-accepted',
+      filename,
+      generation: stored_generation,
+      expectedGeneration: expected_generation
+    });
+  }
+
+  /**
+   * Remembers the generation of contents that decrypted or verified, so a file written
+   * by another window or promoted after a crash raises the bar for older ones
+   */
+  async function acceptGeneration(envelope: Envelope | null): Promise<void> {
+    if (!rollback_protection) return;
+
+    const stored_generation = storedGeneration(envelope);
+    if (stored_generation > last_generation) {
+      await recordGeneration(stored_generation);
+    }
+  }
+
+  /**
+   * Records a written or accepted generation in memory and in the metadata file
+   */
+  async function recordGeneration(generation: number | undefined): Promise<void> {
+    if (generation === undefined) return;
+
+    last_generation = Math.max(last_generation, generation);
+    try {
+      const contents = new TextEncoder().encode(JSON.stringify({ generation: last_generation }));
+      await writeFileAtomic(metadata_filename, contents, storage);
+    } catch (error) {
+      // The in-memory generation still protects this session
+      console.warn(`Failed to write ${metadata_filename}:`, error);
+    }
+  }
+
+  /**
+   * Serializes items into payload bytes with the configured serializer and compression
+   */
+  async function serializeItems(items: T[]): Promise<Uint8Array> {
+    const serialized = await serializer.serialize(items);
+    const bytes = typeof serialized === 'string' ? new TextEncoder().encode(serialized) : serialized;
+    return compress(bytes, compression);
+  }
+
+  /**
+   * Decompresses and deserializes payload bytes into (unvalidated) items
+   */
+  async function deserializeItems(payload: Uint8Array, stored_compression: Compression): Promise<unknown> {
+    const bytes = await decompress(payload, stored_compression);
+    return serializer.binary
+      ? serializer.deserialize(bytes)
+      : serializer.deserialize(new TextDecoder().decode(bytes));
+  }
+
+  /**
+   * Serializes items for writing, encrypting them if encryption is configured
+   */
+  async function encryptItems(items: T[], generation?: number): Promise<Uint8Array> {
+    if (!is_encrypted) {
+      return serializeItems(items);
+    }
+    if (encrypts_fields) {
+      let sealed: T[];
+      try {
+        sealed = await mapFields(items, encrypted_fields, async value => encryptedField(await encryptField(value, generation)));
+      } catch (error) {
+        if (error instanceof LockedError) throw error;
+        throw new Error(`Failed to encrypt fields for ${filename}`, { cause: error });
       }
+      return serializeItems(sealed);
+    }
+    try {
+      return options?.encrypt
+        ? new TextEncoder().encode(await options.encrypt(items))
+        : await payloadEncryption()!.encrypt(await serializeItems(items), { filename, generation });
+    } catch (error) {
+      if (error instanceof LockedError) throw error;
+      throw new Error(`Failed to encrypt data for ${filename}`, { cause: error });
+    }
+  }
+
+  /**
+   * Decrypts a stored payload back into (unvalidated) items
+   */
+  async function decryptItems(
+    payload: Uint8Array,
+    stored_compression: Compression,
+    header: EnvelopeHeader | undefined
+  ): Promise<unknown> {
+    if (encrypts_fields) {
+      return decryptFields(await deserializeItems(payload, stored_compression), header);
+    }
+    if (options?.decrypt) {
+      return options.decrypt(new TextDecoder().decode(payload));
+    }
 
-      // Initial load and notify callback
+    return deserializeItems(await decryptPayload(payload, header), stored_compression);
+  }
+
+  /**
+   * Decrypts bytes with whichever candidate encryption wrote them
+   */
+  async function decryptPayload(payload: Uint8Array, header: EnvelopeHeader | undefined): Promise<Uint8Array> {
+    let last_error: unknown;
+    for (const encryption of decryptionCandidates(header?.keyId)) {
       try {
-        const initialData = await this.load();
-        if (change_callback && initialData.items && initialData.items.length > 0) {
-          await change_callback(initialData);
-        }
+        return await encryption.decrypt(payload, { filename, generation: header?.generation });
       } catch (error) {
-        console.warn(`Failed to load initial data for ${filename}:`, error);
+        last_error = error;
+      }
+    }
+    const reason = last_error instanceof Error ? last_error.message : String(last_error);
+    throw new DecryptionError(`Failed to decrypt ${filename}: ${reason}`, filename, { cause: last_error });
+  }
+
+  /**
+   * Encrypts a single field value into the text stored in its place. Encrypt functions
+   * take items, so they receive the value wrapped in an array.
+   */
+  async function encryptField(value: unknown, generation?: number): Promise<string> {
+    if (options?.encrypt) {
+      return options.encrypt([value] as T[]);
+    }
+    const serialized = await serializer.serialize([value] as T[]);
+    const bytes = typeof serialized === 'string' ? new TextEncoder().encode(serialized) : serialized;
+    return bytesToBase64(await payloadEncryption()!.encrypt(bytes, { filename, generation }));
+  }
+
+  /**
+   * Decrypts a single field value stored by {@link encryptField}
+   */
+  async function decryptField(ciphertext: string, header: EnvelopeHeader | undefined): Promise<unknown> {
+    if (options?.decrypt) {
+      return (await options.decrypt(ciphertext))[0];
+    }
+    const bytes = await decryptPayload(base64ToBytes(ciphertext), header);
+    const values = serializer.binary
+      ? await serializer.deserialize(bytes)
+      : await serializer.deserialize(new TextDecoder().decode(bytes));
+    return values[0];
+  }
+
+  /**
+   * Decrypts the encrypted fields of deserialized items. A plaintext value where a
+   * field should be encrypted is only accepted with `allowPlaintextFallback`.
+   */
+  async function decryptFields(data: unknown, header: EnvelopeHeader | undefined): Promise<unknown> {
+    // Leave anything that is not a list of items to the data validator
+    if (!Array.isArray(data)) return data;
+
+    return mapFields(data, encrypted_fields, async (value, path) => {
+      if (isEncryptedField(value)) {
+        return decryptField(value.$encrypted, header);
+      }
+      if (!security.allowPlaintextFallback) {
+        throw new DecryptionError(`Field ${path} in ${filename} is not encrypted, which could indicate tampering`, filename);
+      }
+      return value;
+    });
+  }
+
+  /**
+   * Returns the encryptions that may have written a payload: the one with the recorded
+   * key id, or the current encryption followed by the keyring for payloads without one
+   */
+  function decryptionCandidates(stored_key_id: string | undefined): PayloadEncryption[] {
+    const encryptions = [payloadEncryption()!, ...(options?.keyring ?? [])];
+    if (stored_key_id === undefined) return encryptions;
+
+    const match = encryptions.find(encryption => encryption.keyId === stored_key_id);
+    if (!match) {
+      throw new DecryptionError(`${filename} was encrypted with key ${stored_key_id}, which is not in the keyring`, filename);
+    }
+    return [match];
+  }
+
+  /**
+   * Returns the payload encryption in use: the configured one, or the one the
+   * keyProvider created on unlock()
+   *
+   * @throws {LockedError} If the adapter is locked
+   */
+  function payloadEncryption(): PayloadEncryption | undefined {
+    if (!options?.keyProvider) return options?.encryption;
+    if (!unlocked_encryption) {
+      throw new LockedError(filename);
+    }
+    return unlocked_encryption;
+  }
+
+  /** Whether the adapter waits for unlock() */
+  function isLocked(): boolean {
+    return Boolean(options?.keyProvider) && !unlocked_encryption;
+  }
+
+  /**
+   * Checks whether a payload holds no items, e.g. a file that was created but never written
+   */
+  function isEmptyPayload(payload: Uint8Array, stored_compression: Compression): boolean {
+    if (payload.byteLength === 0) return true;
+    // Whitespace-only text counts as empty too, but binary payloads may start with any byte
+    const is_text = encrypts_payload
+      ? Boolean(options?.decrypt)
+      : !serializer.binary && stored_compression === 'none';
+    return is_text && !new TextDecoder().decode(payload).trim();
+  }
+
+  /**
+   * Ensures an encrypted payload is not silently parsed as plaintext, and a payload
+   * is not parsed with a serializer it was not written with
+   */
+  function checkEnvelopeCodec(envelope: Envelope | null): void {
+    const codec = envelope?.header.codec;
+    if (codec === 'encrypted' && !can_decrypt) {
+      throw new DecryptionError(`${filename} is encrypted but no decrypt function was provided`, filename);
+    }
+    if (codec && codec !== 'encrypted' && codec !== payload_format) {
+      throw new ValidationError(`${filename} is stored as ${codec}, but the adapter is configured for ${payload_format}`, filename);
+    }
+  }
+
+  /**
+   * Reads the compression recorded in the envelope; files without one are uncompressed
+   */
+  function storedCompression(envelope: Envelope | null): Compression {
+    const stored_compression = envelope?.header.compression ?? 'none';
+    if (!isCompression(stored_compression)) {
+      throw new ValidationError(`${filename} uses unsupported compression ${stored_compression}`, filename);
+    }
+    if (stored_compression !== 'none' && options?.decrypt) {
+      throw new ValidationError(
+        `${filename} is compressed, which encrypt/decrypt functions cannot read; use encryption instead`,
+        filename
+      );
+    }
+    return stored_compression;
+  }
+
+  /**
+   * Ensures the decoded items match the item count recorded in the envelope
+   */
+  function checkEnvelopeItemCount(envelope: Envelope | null, items: unknown[]): void {
+    if (envelope && items.length !== envelope.header.itemCount) {
+      throw new IntegrityError(
+        `Item count mismatch in ${filename}: expected ${envelope.header.itemCount}, found ${items.length}`,
+        filename
+      );
+    }
+  }
+
+  /**
+   * Reads the schema version recorded in the envelope; files without one are version 0
+   *
+   * @throws {SchemaVersionError} If the file is newer than the configured schema version
+   */
+  function storedSchemaVersion(envelope: Envelope | null): number {
+    const stored_version = envelope?.header.schemaVersion ?? 0;
+    if (stored_version > schema_version) {
+      throw new SchemaVersionError(filename, stored_version, schema_version);
+    }
+    return stored_version;
+  }
+
+  /**
+   * Runs the migrations from the stored schema version up to the configured one
+   * and validates the result
+   */
+  async function migrateItems(data: unknown[], from_version: number): Promise<T[]> {
+    let migrated = data;
+    for (let version = from_version; version < schema_version; version++) {
+      const migration = options?.migrations?.[version];
+      if (!migration) {
+        throw new MigrationError(`No migration from schema version ${version} to ${version + 1} for ${filename}`, filename);
       }
-    },
-    async load() {
       try {
-        // Atomic check and read to prevent TOCTOU race conditions
-        let contents: Uint8Array;
+        migrated = await migration(migrated);
+      } catch (error) {
+        throw new MigrationError(
+          `Migration from schema version ${version} to ${version + 1} failed for ${filename}`,
+          filename,
+          { cause: error }
+        );
+      }
+    }
+
+    const validator = security.dataValidator || defaultDataValidator;
+    if (!validator<T>(migrated)) {
+      throw new ValidationError(`Migrated data failed validation for ${filename}`, filename);
+    }
+    return migrated;
+  }
+
+  /**
+   * Rewrites the file in the configured schema version after migrating it on load,
+   * keeping a backup of the old version if backups are enabled
+   */
+  async function rewriteMigrated(previous_contents: Uint8Array, items: T[]): Promise<void> {
+    if (security.createBackups) {
+      try {
+        await writeBackupFile(filename, previous_contents, storage);
+        await cleanupOldBackups(filename, security.maxBackups || 5, storage);
+      } catch (backupError) {
+        console.warn(`Failed to create backup before migrating ${filename}:`, backupError);
+      }
+    }
+
+    const { contents, generation } = await encodeItems(items);
+    await writeFileAtomic(filename, contents, storage);
+    await recordGeneration(generation);
+  }
+
+  /**
+   * Contents that put a backup back in place of the collection file. With rollback
+   * protection the items are written as a new generation, since the backup's own is older.
+   */
+  async function restoredContents(contents: Uint8Array, items: T[]): Promise<{ contents: Uint8Array; generation?: number }> {
+    return rollback_protection ? encodeItems(items) : { contents };
+  }
+
+  /**
+   * Notifies the recovery callback, never letting its errors break the adapter
+   */
+  async function reportRecovery(event: RecoveryEvent): Promise<void> {
+    if (!options?.onRecovery) return;
+    try {
+      await options.onRecovery(event);
+    } catch (callbackError) {
+      console.warn(`Recovery callback error for ${filename}:`, callbackError);
+    }
+  }
+
+  /**
+   * Recovers from a save that was interrupted before its temporary file was promoted.
+   * The newest valid temporary file replaces a missing or corrupt main file;
+   * all other temporary files are removed.
+   */
+  async function recoverTempFiles(): Promise<void> {
+    const temp_files = await listTempFiles(filename, storage);
+    if (temp_files.length === 0) return;
+
+    // A readable main file means the interrupted save was never committed
+    let main_is_valid = false;
+    try {
+      await decodeItems(await storage.read(filename), true);
+      main_is_valid = true;
+    } catch {
+      main_is_valid = false;
+    }
+
+    let promoted: { source: string; itemCount: number } | null = null;
+    const discarded: string[] = [];
+
+    for (const temp_filename of temp_files) {
+      if (!main_is_valid && !promoted) {
         try {
-          contents = await readFile(filename, { baseDir: base_dir });
+          const items = await decodeItems(await storage.read(temp_filename), true);
+          await storage.rename(temp_filename, filename);
+          bumpWriteGeneration(write_queue_key);
+          promoted = { source: temp_filename, itemCount: items.length };
+          continue;
         } catch (error) {
-          // File doesn't exist or can't be read
-          return { items: [] };
+          console.warn(`Temporary file ${temp_filename} is not recoverable:`, error);
         }
+      }
 
-        const text_content = new TextDecoder().decode(contents);
+      try {
+        await storage.remove(temp_filename);
+        discarded.push(temp_filename);
+      } catch (removeError) {
+        console.warn(`Failed to remove temporary file ${temp_filename}:`, removeError);
+      }
+    }
 
-        if (!text_content.trim()) return { items: [] };
+    if (promoted) {
+      await reportRecovery({
+        type: 'temp-file-promoted',
+        filename,
+        source: promoted.source,
+        itemCount: promoted.itemCount,
+        discarded
+      });
+    } else if (discarded.length > 0) {
+      await reportRecovery({ type: 'temp-files-discarded', filename, discarded });
+    }
+  }
 
-        let decrypted_data: T[];
+  /**
+   * Pushes items to the registered change callback
+   *
+   * @throws {CallbackError} If the callback fails and callback errors propagate
+   */
+  async function notifyChange(items: T[], phase: AdapterPhase): Promise<void> {
+    if (!is_registered || !change_callback) return;
 
-        if (options?.decrypt) {
-          try {
-            decrypted_data = await options.decrypt(text_content);
+    try {
+      // Clone data to prevent mutation in callback; structuredClone keeps the types a serializer preserves
+      const callback_data = {
+        items: options?.serializer ? structuredClone(items) : JSON.parse(JSON.stringify(items))
+      };
+      await change_callback(callback_data);
+    } catch (callbackError) {
+      if (security.propagateCallbackErrors) {
+        throw new CallbackError(`Change callback failed for ${filename}`, filename, { phase, cause: callbackError });
+      } else {
+        console.warn(`Change callback error for ${filename}:`, callbackError);
+      }
+    }
+  }
 
-            // Validate decrypted data structure if validation is enabled
-            if (security.validateDecryptedData) {
-              const validator = security.dataValidator || defaultDataValidator;
-              if (!validator<T>(decrypted_data)) {
-                throw new Error('Decrypted data failed validation - possible data corruption or tampering');
-              }
-            }
-          } catch (decryptError) {
-            const errorMsg = decryptError instanceof Error ? decryptError.message : String(decryptError);
-            if (!security.allowPlaintextFallback) {
-              throw new Error(
-                `Decryption failed and plaintext fallback is disabled. ` +
-                `This could indicate data tampering or corruption: ${errorMsg}`,
-                { cause: decryptError }
-              );
-            }
+  /**
+   * Reloads the file after a change made outside this adapter and pushes the result
+   * to SignalDB. Events caused by our own writes are suppressed because they leave
+   * the cache matching the file on disk.
+   */
+  async function handleExternalChange(force = false): Promise<void> {
+    // Queue behind writes in flight so their events are checked against the updated cache
+    const items = await inPhase('load', () => runWrite(async () => {
+      // Changes made while locked are picked up by unlock()
+      if (isLocked()) return null;
+      if (!await storage.exists(filename)) return null;
 
-            console.warn(
-              `[SECURITY WARNING] Decryption failed for ${filename}. ` +
-              'Attempting plaintext fallback. This could indicate data tampering.',
-              decryptError
-            );
+      const info = await statFile();
+      if (!force && item_cache && info && isCacheFresh(item_cache, info, writeGeneration(write_queue_key))) {
+        return null;
+      }
+      return (await loadCollection()).items || [];
+    }, 'read'));
 
-            try {
-              decrypted_data = JSON.parse(text_content);
-
-              // Validate even fallback data
-              if (security.validateDecryptedData) {
-                const validator = security.dataValidator || defaultDataValidator;
-                if (!validator<T>(decrypted_data)) {
-                  throw new Error('Fallback plaintext data failed validation');
-                }
-              }
-            } catch (parseError) {
-              const parseMsg = parseError instanceof Error ? parseError.message : String(parseError);
-              throw new Error(
-                `Both decryption and plaintext parsing failed for ${filename}: ${parseMsg}`,
-                { cause: parseError }
+    if (items) {
+      await notifyChange(items, 'load');
+    }
+  }
+
+  /**
+   * Runs a write after all earlier writes to this file, holding the cross-window lock
+   * when multi-window coordination is enabled. A lock that cannot be taken fails the
+   * task as a ReadError when it only loads the file, otherwise as a WriteError.
+   */
+  function runWrite<R>(task: () => Promise<R>, access: 'read' | 'write' = 'write'): Promise<R> {
+    return enqueueWrite(write_queue_key, async () => {
+      if (!multi_window) return task();
+
+      let release: ReleaseLock;
+      try {
+        release = await acquireFileLock(filename, storage, lock_options);
+      } catch (error) {
+        const message = `Failed to take the cross-window lock on ${filename}: ${error instanceof Error ? error.message : String(error)}`;
+        throw access === 'read'
+          ? new ReadError(message, filename, { cause: error })
+          : new WriteError(message, filename, { cause: error });
+      }
+      try {
+        return await task();
+      } finally {
+        await release();
+      }
+    });
+  }
+
+  /**
+   * Tells other windows that the collection file was written
+   */
+  async function broadcastChange(): Promise<void> {
+    if (!multi_window) return;
+
+    try {
+      await emit<ChangeEventPayload>(CHANGE_EVENT, { filename, baseDir: storage.id, origin: instance_id });
+    } catch (error) {
+      console.warn(`Failed to broadcast change of ${filename}:`, error);
+    }
+  }
+
+  /**
+   * Starts listening for writes made by other windows
+   */
+  async function startListening(): Promise<void> {
+    if (unlisten) return;
+
+    unlisten = await listen<ChangeEventPayload>(CHANGE_EVENT, (event) => {
+      const { filename: changed_filename, baseDir, origin } = event.payload;
+      if (changed_filename !== filename || baseDir !== storage.id || origin === instance_id) return;
+
+      // The other window told us it wrote, so reload even if the file looks unchanged
+      handleExternalChange(true).catch((error) => {
+        console.warn(`Failed to reload ${filename} after change in another window:`, error);
+      });
+    });
+  }
+
+  /**
+   * Starts watching the storage for changes to the collection file
+   */
+  async function startWatching(): Promise<void> {
+    if (unwatch || !storage.watch) return;
+
+    unwatch = await storage.watch((names) => {
+      if (!names.includes(filename)) return;
+
+      handleExternalChange().catch((error) => {
+        console.warn(`Failed to reload ${filename} after external change:`, error);
+      });
+    }, {
+      delayMs: options?.watchDelayMs ?? 100
+    });
+  }
+
+  /**
+   * Reads file metadata, or null if it is unavailable
+   */
+  async function statFile(): Promise<StorageStat | null> {
+    try {
+      return await storage.stat(filename);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Returns the current items, from the cache when the file has not changed since
+   * it was last loaded or saved, otherwise from disk
+   */
+  async function readCurrentItems(): Promise<T[]> {
+    if (item_cache) {
+      const info = await statFile();
+      if (info && isCacheFresh(item_cache, info, writeGeneration(write_queue_key))) {
+        return [...item_cache.items.values()];
+      }
+      item_cache = null;
+    }
+    return (await loadCollection()).items || [];
+  }
+
+  /**
+   * Reads and decodes the collection file
+   */
+  async function loadFromFile(): Promise<LoadResponse<T>> {
+    try {
+      // Take file info before reading, so a concurrent change makes the cache stale rather than wrong
+      const generation = writeGeneration(write_queue_key);
+      const info = await statFile();
+
+      // Atomic check and read to prevent TOCTOU race conditions
+      let contents: Uint8Array;
+      try {
+        contents = await storage.read(filename);
+      } catch (error) {
+        // File doesn't exist or can't be read
+        return { items: [] };
+      }
+
+      // Verify the checksum and signature of enveloped files; legacy bare files are read as-is
+      const envelope = await openVerifiedEnvelope(contents);
+      await checkGeneration(envelope);
+      checkEnvelopeCodec(envelope);
+      const stored_version = storedSchemaVersion(envelope);
+      const stored_compression = storedCompression(envelope);
+
+      // Items in an older schema are validated after migrating them
+      const needs_migration = stored_version < schema_version;
+      const validate_stored = security.validateDecryptedData && !needs_migration;
+
+      const payload = envelope ? envelope.payload : contents;
+
+      if (isEmptyPayload(payload, stored_compression)) return { items: [] };
+
+      let decrypted_data: T[];
+      // Whether the recorded generation was authenticated by decryption or the signature
+      let generation_authenticated = true;
+
+      if (can_decrypt) {
+        try {
+          decrypted_data = await decryptItems(payload, stored_compression, envelope?.header) as T[];
+
+          // Validate decrypted data structure if validation is enabled
+          if (validate_stored) {
+            const validator = security.dataValidator || defaultDataValidator;
+            if (!validator<T>(decrypted_data)) {
+              throw new ValidationError(
+                'Decrypted data failed validation - possible data corruption or tampering',
+                filename,
+                { phase: 'load' }
               );
             }
           }
-        } else {
+        } catch (decryptError) {
+          const errorMsg = decryptError instanceof Error ? decryptError.message : String(decryptError);
+          if (!security.allowPlaintextFallback) {
+            throw new DecryptionError(
+              `Decryption failed and plaintext fallback is disabled. ` +
+              `This could indicate data tampering or corruption: ${errorMsg}`,
+              filename,
+              { phase: 'load', cause: decryptError }
+            );
+          }
+          if (encrypts_fields) {
+            // Plaintext fields were already accepted one by one, so the rest is unreadable
+            throw new DecryptionError(`Failed to decrypt fields of ${filename}: ${errorMsg}`, filename, {
+              phase: 'load',
+              cause: decryptError
+            });
+          }
+
+          console.warn(
+            `[SECURITY WARNING] Decryption failed for ${filename}. ` +
+            'Attempting plaintext fallback. This could indicate data tampering.',
+            decryptError
+          );
+          generation_authenticated = options?.integrityKey !== undefined;
+
           try {
-            decrypted_data = JSON.parse(text_content);
+            decrypted_data = await deserializeItems(payload, stored_compression) as T[];
 
-            // Validate data structure
-            if (security.validateDecryptedData) {
+            // Validate even fallback data
+            if (validate_stored) {
               const validator = security.dataValidator || defaultDataValidator;
               if (!validator<T>(decrypted_data)) {
-                throw new Error('Data failed validation - possible corruption');
+                throw new ValidationError('Fallback plaintext data failed validation', filename, { phase: 'load' });
               }
             }
           } catch (parseError) {
-            const errorMsg = parseError instanceof Error ? parseError.message : String(parseError);
-            if (errorMsg.includes('validation')) {
-              throw parseError; // Re-throw validation errors as-is
+            const parseMsg = parseError instanceof Error ? parseError.message : String(parseError);
+            throw new DecryptionError(
+              `Both decryption and plaintext parsing failed for ${filename}: ${parseMsg}`,
+              filename,
+              { phase: 'load', cause: parseError }
+            );
+          }
+        }
+      } else {
+        try {
+          decrypted_data = await deserializeItems(payload, stored_compression) as T[];
+
+          // Validate data structure
+          if (validate_stored) {
+            const validator = security.dataValidator || defaultDataValidator;
+            if (!validator<T>(decrypted_data)) {
+              throw new ValidationError('Data failed validation - possible corruption', filename, { phase: 'load' });
             }
-            return { items: [] }; // For backwards compatibility with corrupted JSON
           }
+        } catch (parseError) {
+          if (parseError instanceof ValidationError) throw parseError;
+          const errorMsg = parseError instanceof Error ? parseError.message : String(parseError);
+          if (security.recoverFromBackups) {
+            throw new IntegrityError(`Corrupted JSON: ${errorMsg}`, filename, { cause: parseError });
+          }
+          return { items: [] }; // For backwards compatibility with corrupted JSON
         }
+      }
 
-        return { items: decrypted_data };
-      } catch (error) {
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        // For certain errors, propagate them directly
-        if (errorMsg.includes('Decryption failed and plaintext fallback is disabled') ||
-          errorMsg.includes('Data failed validation') ||
-          errorMsg.includes('Fallback plaintext data failed validation')) {
-          throw error;
+      checkEnvelopeItemCount(envelope, decrypted_data);
+      if (generation_authenticated) {
+        await acceptGeneration(envelope);
+      }
+
+      if (needs_migration) {
+        const migrated = await migrateItems(decrypted_data, stored_version);
+        try {
+          await rewriteMigrated(contents, migrated);
+          const migrated_info = await statFile();
+          item_cache = migrated_info
+            ? createItemCache(migrated, migrated_info, writeGeneration(write_queue_key))
+            : null;
+        } catch (writeError) {
+          // The migrated items are still usable; the next save writes the new version
+          console.warn(`Failed to rewrite ${filename} after migrating it:`, writeError);
+          item_cache = null;
         }
-        // For other errors, wrap them for context
-        throw new Error(`Failed to load data from ${filename}: ${errorMsg}`, { cause: error });
+        return { items: migrated };
       }
-    },
-    async save(items, changes) {
-      try {
-        // Create backup before modifying data (only if enabled)
-        let backup_filename: string | null = null;
-        if (security.createBackups) {
-          backup_filename = createBackupFilename(filename);
+
+      item_cache = info ? createItemCache(decrypted_data, info, generation) : null;
+      return { items: decrypted_data };
+    } catch (error) {
+      // Typed errors already name the file and the failure
+      if (error instanceof AdapterError) throw error;
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      // For other errors, wrap them for context
+      throw new ReadError(`Failed to load data from ${filename}: ${errorMsg}`, filename, { cause: error });
+    }
+  }
+
+  /**
+   * Moves a corrupt collection file aside so it is never overwritten
+   */
+  async function quarantineFile(): Promise<string> {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const quarantine_filename = `${filename}.corrupt.${timestamp}`;
+    await storage.rename(filename, quarantine_filename);
+    bumpWriteGeneration(write_queue_key);
+    return quarantine_filename;
+  }
+
+  /**
+   * Replaces a corrupt collection file with the newest backup that decodes and validates,
+   * quarantining the corrupt file. Returns null and leaves the file alone when no backup is usable.
+   */
+  async function recoverFromBackup(loadError: unknown): Promise<LoadResponse<T> | null> {
+    const reason = loadError instanceof Error ? loadError.message : String(loadError);
+
+    let restored: { id: string; contents: Uint8Array; items: T[] } | null = null;
+    try {
+      for (const backup of await listBackupFiles(filename, storage)) {
+        try {
+          const contents = await storage.read(backup.name);
+          restored = { id: backup.id, contents, items: await decodeItems(contents) };
+          break;
+        } catch (error) {
+          console.warn(`Backup ${backup.name} is not usable for recovery:`, error);
         }
+      }
+    } catch (error) {
+      console.warn(`Failed to list backups for ${filename}:`, error);
+    }
+
+    // Without a replacement the file stays where it is, so nothing can be saved over it
+    if (!restored) {
+      console.warn(`No usable backup to recover ${filename} from`);
+      return null;
+    }
+
+    // A backup is older than the file it replaces, so restoring it is a rollback like any other
+    try {
+      await checkGeneration(await openVerifiedEnvelope(restored.contents));
+    } catch (error) {
+      console.warn(`Backup ${restored.id} of ${filename} is not restored automatically:`, error);
+      return null;
+    }
+
+    let quarantine_filename: string;
+    try {
+      quarantine_filename = await quarantineFile();
+    } catch (error) {
+      // Never replace the file unless the corrupt version is safely set aside
+      console.warn(`Failed to quarantine corrupt file ${filename}:`, error);
+      return null;
+    }
+
+    try {
+      const restored_contents = await restoredContents(restored.contents, restored.items);
+      await writeFileAtomic(filename, restored_contents.contents, storage);
+      await recordGeneration(restored_contents.generation);
+    } catch (error) {
+      throw new WriteError(`Failed to restore backup ${restored.id} of ${filename}`, filename, { cause: error });
+    }
+    await reportRecovery({
+      type: 'backup-restored',
+      filename,
+      backupId: restored.id,
+      quarantinedAs: quarantine_filename,
+      itemCount: restored.items.length,
+      reason
+    });
+    return { items: restored.items };
+  }
+
+  /**
+   * Loads the collection, falling back to backups when enabled
+   */
+  async function loadCollection(): Promise<LoadResponse<T>> {
+    if (!security.recoverFromBackups) {
+      return loadFromFile();
+    }
+
+    try {
+      return await loadFromFile();
+    } catch (error) {
+      // A file from a newer app version is not corrupt and must be left alone, and
+      // replacing a replayed old file would hide the replay. A wrong key or integrity key
+      // looks just like a corrupt file, so such files are never replaced either.
+      if (
+        error instanceof SchemaVersionError ||
+        error instanceof RollbackError ||
+        error instanceof TamperError ||
+        error instanceof DecryptionError ||
+        error instanceof LockedError
+      ) {
+        throw error;
+      }
+
+      const recovered = await recoverFromBackup(error);
+      if (recovered) return recovered;
+      throw error;
+    }
+  }
 
+  /**
+   * Applies changes to the stored collection and writes it atomically
+   */
+  async function persistChanges(items: T[], changes: Changeset<T>): Promise<void> {
+    // Serialize with every other write to this file so load/merge/write never interleave
+    return runWrite(async () => {
+      // Never fall back to writing without the key
+      if (isLocked()) {
+        throw new LockedError(filename);
+      }
+
+      try {
         // Use incremental updates with the changes parameter for better performance
         let current_items: T[] = [];
 
         // First, load current data if file exists
         try {
-          const current_data = await this.load();
-          current_items = current_data.items || [];
+          current_items = await readCurrentItems();
 
           // Create backup of current state (only if backups are enabled)
-          if (security.createBackups && backup_filename) {
+          if (security.createBackups) {
             try {
-              const current_content = await readFile(filename, { baseDir: base_dir });
-              await writeFile(backup_filename, current_content, { baseDir: base_dir });
+              const current_content = await storage.read(filename);
+              await writeBackupFile(filename, current_content, storage);
 
               // Clean up old backups
-              await cleanupOldBackups(filename, security.maxBackups || 5, base_dir);
+              await cleanupOldBackups(filename, security.maxBackups || 5, storage);
             } catch (backupError) {
-              console.warn(`Failed to create backup ${backup_filename}:`, backupError);
+              console.warn(`Failed to create backup of ${filename}:`, backupError);
             }
           }
         } catch (error) {
+          // Never overwrite a file that exists but cannot be read: one written by a newer app version,
+          // encrypted with another key, corrupt, or failing its signature, rollback or migration
+          if (
+            error instanceof SchemaVersionError ||
+            error instanceof DecryptionError ||
+            error instanceof IntegrityError ||
+            error instanceof ValidationError ||
+            error instanceof MigrationError
+          ) {
+            throw error;
+          }
+
           console.warn('Could not load current data, starting with empty array:', error);
           current_items = [];
         }
@@ -332,107 +1404,445 @@ export function createTauriFileSystemAdapter<T extends { id: ID } & Record<strin
           updated_items = items;
         }
 
-        let data_to_save: string;
+        const data_to_save = await encodeItems(updated_items);
 
-        if (options?.encrypt) {
-          try {
-            data_to_save = await options.encrypt(updated_items);
-          } catch (error) {
-            throw new Error(`Failed to encrypt data for ${filename}`, { cause: error });
-          }
-        } else {
-          data_to_save = JSON.stringify(updated_items);
+        // Use atomic write pattern: write to a temporary file, then rename it over the target
+        try {
+          await writeFileAtomic(filename, data_to_save.contents, storage);
+          await recordGeneration(data_to_save.generation);
+
+          const info = await statFile();
+          item_cache = info ? createItemCache(updated_items, info, writeGeneration(write_queue_key)) : null;
+        } catch (writeError) {
+          throw new WriteError(`Failed to save data to ${filename}`, filename, { phase: 'save', cause: writeError });
         }
 
-        // Use atomic write pattern: write to temporary file first
-        const temp_filename = `${filename}.tmp.${Date.now()}`;
+        // Notify callback about the change if registered
+        await notifyChange(updated_items, 'save');
+        await broadcastChange();
+      } catch (error) {
+        // The data was written, so a failing callback is not reported as a failed save
+        if (error instanceof CallbackError || error instanceof WriteError) throw error;
+        throw new WriteError(`Failed to save data to ${filename}`, filename, { phase: 'save', cause: error });
+      }
+    });
+  }
 
-        try {
-          // Write to temporary file
-          await writeFile(temp_filename, new TextEncoder().encode(data_to_save), {
-            baseDir: base_dir
-          });
+  /**
+   * Schedules the pending write after the debounce delay, bounded by maxWriteDelayMs
+   */
+  function scheduleFlush(): void {
+    if (!pending_write) return;
 
-          // Verify the temporary file was written correctly (if possible)
-          try {
-            const temp_contents = await readFile(temp_filename, { baseDir: base_dir });
-            const temp_text = new TextDecoder().decode(temp_contents);
-            if (temp_text !== data_to_save) {
-              throw new Error('Temporary file verification failed - data mismatch');
-            }
-          } catch (verifyError) {
-            // If verification fails, continue anyway for compatibility
-            console.warn(`Failed to verify temporary file ${temp_filename}:`, verifyError);
-          }
+    let delay = write_debounce_ms;
+    if (options?.maxWriteDelayMs !== undefined) {
+      const remaining = options.maxWriteDelayMs - (Date.now() - pending_write.since);
+      delay = Math.min(delay, remaining);
+    }
 
-          // Remove old file if it exists and replace with new one
-          // This is the closest we can get to atomic operation in Tauri
-          try {
-            const oldExists = await exists(filename, { baseDir: base_dir });
-            if (oldExists) {
-              await remove(filename, { baseDir: base_dir });
-            }
-          } catch (removeError) {
-            console.warn(`Failed to remove old file ${filename}:`, removeError);
-          }
+    if (flush_timer !== null) {
+      clearTimeout(flush_timer);
+    }
+    flush_timer = setTimeout(() => {
+      // Errors reach the callers of save() through the pending promise
+      flushPending().catch(() => { });
+    }, Math.max(0, delay));
+  }
 
-          // Write the final file
-          await writeFile(filename, new TextEncoder().encode(data_to_save), {
-            baseDir: base_dir
-          });
+  /**
+   * Writes the coalesced changes now, settling every save() waiting on them
+   */
+  function flushPending(): Promise<void> {
+    if (flush_timer !== null) {
+      clearTimeout(flush_timer);
+      flush_timer = null;
+    }
+    if (!pending_write) return Promise.resolve();
 
-          // Clean up temp file
-          try {
-            const tempExists = await exists(temp_filename, { baseDir: base_dir });
-            if (tempExists) {
-              await remove(temp_filename, { baseDir: base_dir });
-            }
-          } catch (cleanupError) {
-            console.warn(`Failed to cleanup temp file ${temp_filename}:`, cleanupError);
-          }
+    const { items, changes, promise, resolve, reject } = pending_write;
+    pending_write = null;
+    inPhase('save', () => persistChanges(items, toChangeset(changes))).then(resolve, reject);
+    return promise;
+  }
 
-        } catch (writeError) {
-          // Clean up temp file on error
-          try {
-            const tempExists = await exists(temp_filename, { baseDir: base_dir });
-            if (tempExists) {
-              await remove(temp_filename, { baseDir: base_dir });
-            }
-          } catch (cleanupError) {
-            console.warn(`Failed to cleanup temp file after error:`, cleanupError);
+  /**
+   * Forces pending coalesced changes to disk and waits for every write in flight
+   */
+  async function flush(): Promise<void> {
+    await flushPending();
+    await enqueueWrite(write_queue_key, async () => { });
+  }
+
+  /**
+   * Lists the backups of this collection, newest first
+   */
+  async function listBackups(): Promise<BackupInfo[]> {
+    const backup_files = await listBackupFiles(filename, storage);
+    const backups: BackupInfo[] = [];
+
+    for (const backup of backup_files) {
+      let contents: Uint8Array;
+      try {
+        contents = await storage.read(backup.name);
+      } catch {
+        // Removed between listing and reading
+        continue;
+      }
+
+      let item_count: number | null = null;
+      try {
+        item_count = (await decodeItems(contents)).length;
+      } catch {
+        item_count = null;
+      }
+
+      backups.push({
+        id: backup.id,
+        filename: backup.name,
+        timestamp: backup.timestamp,
+        size: contents.byteLength,
+        itemCount: item_count
+      });
+    }
+
+    return backups;
+  }
+
+  /**
+   * Atomically replaces the collection file with one of its backups
+   * and pushes the restored items to the registered change callback
+   */
+  async function restoreBackup(id: string): Promise<void> {
+    return runWrite(async () => {
+      if (isLocked()) {
+        throw new LockedError(filename);
+      }
+
+      // Only accept ids of backups that actually exist, never arbitrary paths
+      const backup = (await listBackupFiles(filename, storage)).find(file => file.id === id);
+      if (!backup) {
+        throw new PathError(`Backup ${id} not found for ${filename}`, filename, { phase: 'restore' });
+      }
+
+      const contents = await storage.read(backup.name);
+      let items: T[];
+      try {
+        items = await decodeItems(contents);
+      } catch (error) {
+        throw new ValidationError(`Backup ${backup.name} is not valid and cannot be restored`, filename, {
+          phase: 'restore',
+          cause: error
+        });
+      }
+
+      try {
+        const restored = await restoredContents(contents, items);
+        await writeFileAtomic(filename, restored.contents, storage);
+        await recordGeneration(restored.generation);
+      } catch (writeError) {
+        throw new WriteError(`Failed to restore ${backup.name} to ${filename}`, filename, {
+          phase: 'restore',
+          cause: writeError
+        });
+      }
+
+      await notifyChange(items, 'restore');
+      await broadcastChange();
+    });
+  }
+
+  /**
+   * Re-encrypts the collection file and its backups with the current encryption,
+   * decrypting each with whichever key in the keyring wrote it
+   */
+  async function rekey(): Promise<void> {
+    if (!has_payload_encryption) {
+      throw new ConfigurationError(`Rekeying ${filename} requires the encryption or keyProvider option`, filename);
+    }
+
+    return runWrite(async () => {
+      if (isLocked()) {
+        throw new LockedError(filename);
+      }
+
+      const backups = await listBackupFiles(filename, storage);
+
+      // Backups first, so the main file is never on a newer key than every backup
+      for (const name of [...backups.map(backup => backup.name), filename]) {
+        if (!await storage.exists(name)) continue;
+
+        let items: T[];
+        try {
+          // Rekeying must not launder a rolled back collection file into a new generation
+          const stored = await storage.read(name);
+          items = await decodeItems(stored, name === filename);
+          // Backups keep their own generation, so they still cannot replay over the main file
+          const kept_generation = name === filename
+            ? undefined
+            : storedGeneration(await openVerifiedEnvelope(stored));
+          const { contents, generation } = await encodeItems(items, kept_generation);
+          await writeFileAtomic(name, contents, storage);
+          if (name === filename) {
+            await recordGeneration(generation);
           }
-          throw new Error(`Failed to write data to ${filename}`, { cause: writeError });
+        } catch (error) {
+          throw new WriteError(`Failed to rekey ${name}`, filename, { phase: 'rekey', cause: error });
         }
 
-        // Notify callback about the change if registered
-        if (is_registered && change_callback) {
-          try {
-            // Clone data to prevent mutation in callback
-            const callback_data = { items: JSON.parse(JSON.stringify(updated_items)) };
-            await change_callback(callback_data);
-          } catch (callbackError) {
-            if (security.propagateCallbackErrors) {
-              throw new Error(`Change callback failed for ${filename}`, { cause: callbackError });
-            } else {
-              console.warn(`Change callback error for ${filename}:`, callbackError);
-            }
-          }
+        if (name === filename) {
+          const info = await statFile();
+          item_cache = info ? createItemCache(items, info, writeGeneration(write_queue_key)) : null;
         }
+      }
+    });
+  }
+
+  /**
+   * Recovers from an interrupted save and creates the file if it does not exist yet
+   */
+  async function prepareFile(): Promise<void> {
+    // Recover from a previous save that was interrupted mid-write
+    try {
+      await recoverTempFiles();
+    } catch (error) {
+      console.warn(`Failed to recover temporary files for ${filename}:`, error);
+    }
+
+    const fileExists = await storage.exists(filename);
+
+    if (!fileExists) {
+      try {
+        const initial_data = await encodeItems([]);
+        await storage.write(filename, initial_data.contents);
+        bumpWriteGeneration(write_queue_key);
+        await recordGeneration(initial_data.generation);
       } catch (error) {
-        // Re-throw callback errors if they should propagate
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        if (errorMsg.includes('Change callback failed')) {
-          throw error;
+        throw new WriteError(`Failed to initialize file ${filename}`, filename, { phase: 'init', cause: error });
+      }
+    }
+  }
+
+  /**
+   * Creates the encryption from the key, then loads the collection with it and pushes
+   * the items to the registered change callback
+   */
+  async function unlock(key: UnlockKey): Promise<void> {
+    if (!options?.keyProvider) {
+      throw new ConfigurationError(`${filename} has no keyProvider to unlock`, filename);
+    }
+    const encryption = await options.keyProvider(key);
+
+    const items = await runWrite(async () => {
+      const previous_encryption = unlocked_encryption;
+      unlocked_encryption = encryption;
+      try {
+        if (is_registered) {
+          await inPhase('init', prepareFile);
+        }
+        // Never recover from backups here: a wrong key looks just like a corrupt file
+        return (await loadFromFile()).items || [];
+      } catch (error) {
+        // Keep a key that cannot read the file from ever writing it
+        unlocked_encryption = previous_encryption;
+        item_cache = null;
+        throw error;
+      }
+    });
+
+    await notifyChange(items, 'unlock');
+  }
+
+  /**
+   * Writes pending changes with the current key, then forgets it along with every
+   * decrypted item held by the adapter and the collection
+   */
+  async function lock(): Promise<void> {
+    if (!options?.keyProvider) {
+      throw new ConfigurationError(`${filename} has no keyProvider to lock`, filename);
+    }
+
+    try {
+      await flush();
+    } finally {
+      // Queued so that no write in flight loses its key halfway
+      await enqueueWrite(write_queue_key, async () => {
+        unlocked_encryption = null;
+        item_cache = null;
+      });
+    }
+
+    await notifyChange([], 'lock');
+  }
+
+  const adapter = createPersistenceAdapter({
+    async register(onChange) {
+      change_callback = onChange;
+      is_registered = true;
+
+      // Without the key nothing can be read; unlock() prepares and loads the file instead
+      if (!isLocked()) {
+        await inPhase('init', () => runWrite(prepareFile));
+
+        // Initial load and notify callback
+        try {
+          const initialData = await this.load();
+          if (change_callback && initialData.items && initialData.items.length > 0) {
+            await change_callback(initialData);
+          }
+        } catch (error) {
+          console.warn(`Failed to load initial data for ${filename}:`, error);
+        }
+      }
+
+      if (multi_window) {
+        try {
+          await startListening();
+        } catch (error) {
+          console.warn(`Failed to listen for changes to ${filename} from other windows:`, error);
+        }
+      }
+
+      if (options?.watchExternalChanges) {
+        try {
+          await startWatching();
+        } catch (error) {
+          console.warn(`Failed to watch ${filename} for external changes:`, error);
         }
-        throw new Error(`Failed to save data to ${filename}`, { cause: error });
       }
     },
+    async load() {
+      // The collection stays empty until unlock() pushes its items
+      if (isLocked()) return { items: [] };
+
+      // Loading may rewrite the file (migrations, backup recovery), so it is serialized with writes
+      return inPhase('load', () => runWrite(loadCollection, 'read'));
+    },
+    async save(items, changes) {
+      if (isLocked()) {
+        throw new LockedError(filename, { phase: 'save' });
+      }
+      if (!write_debounce_ms) {
+        return inPhase('save', () => persistChanges(items, changes));
+      }
+
+      // Coalesce with other saves until the debounce window closes
+      if (!pending_write) {
+        let resolve!: () => void;
+        let reject!: (error: unknown) => void;
+        const promise = new Promise<void>((res, rej) => {
+          resolve = res;
+          reject = rej;
+        });
+        pending_write = {
+          items,
+          changes: createPendingChanges<T>(),
+          since: Date.now(),
+          promise,
+          resolve,
+          reject
+        };
+      }
+      pending_write.items = items;
+      mergeChanges(pending_write.changes, changes);
+
+      scheduleFlush();
+      return pending_write.promise;
+    },
     async unregister() {
+      // Persist coalesced changes before letting go of the collection
+      try {
+        await flushPending();
+      } catch (error) {
+        console.warn(`Failed to flush pending changes for ${filename}:`, error);
+      }
+
+      if (unwatch) {
+        unwatch();
+        unwatch = null;
+      }
+      if (unlisten) {
+        unlisten();
+        unlisten = null;
+      }
+
       // Clean up the change callback when unregistering
       is_registered = false;
       change_callback = null;
     }
   }) as PersistenceAdapter<T, ID>;
+
+  return Object.assign(adapter, {
+    listBackups,
+    restoreBackup: (id: string) => inPhase('restore', () => restoreBackup(id)),
+    flush,
+    rekey: () => inPhase('rekey', rekey),
+    unlock: (key: UnlockKey) => inPhase('unlock', () => unlock(key)),
+    lock: () => inPhase('lock', lock),
+    isLocked
+  });
 }
 
-export type { EncryptFunction, DecryptFunction, SecurityOptions, AdapterOptions } from './types';
+export type {
+  EncryptFunction,
+  DecryptFunction,
+  SecurityOptions,
+  AdapterOptions,
+  RecoveryEvent,
+  RecoveryCallback,
+  BackupInfo,
+  MultiWindowOptions,
+  Migration,
+  Serializer,
+  TextSerializer,
+  BinarySerializer,
+  PayloadEncryption,
+  EncryptionContext,
+  KeyProvider,
+  UnlockKey,
+  IntegrityKey,
+  StorageBackend,
+  StorageStat,
+  StorageWriteOptions,
+  TauriFileSystemAdapter
+} from './types';
+export { createTauriStorage } from './storage';
+export { createMemoryStorage } from './memory';
+export type {
+  MemoryStorage,
+  MemoryStorageOptions,
+  StorageCall,
+  StorageFault,
+  StorageOperation
+} from './memory';
+export {
+  createBrowserStorage,
+  createIndexedDbStorage,
+  createOpfsStorage,
+  isBrowserStorageAvailable,
+  type BrowserStorageKind
+} from './browser';
+export { createAesGcmEncryption, aesGcmKeyProvider } from './encryption';
+export type { AesGcmEncryptionOptions } from './encryption';
+export type { Compression } from './compression';
+export { jsonSerializer, taggedJsonSerializer, msgpackSerializer, cborSerializer } from './serializers';
+export { encodeMsgpack, decodeMsgpack } from './msgpack';
+export { encodeCbor, decodeCbor } from './cbor';
+export {
+  AdapterError,
+  CallbackError,
+  ConfigurationError,
+  DecryptionError,
+  IntegrityError,
+  LockedError,
+  MigrationError,
+  PathError,
+  ReadError,
+  RollbackError,
+  SchemaVersionError,
+  StorageFaultError,
+  TamperError,
+  ValidationError,
+  WriteError
+} from './errors';
+export type { AdapterErrorCode, AdapterErrorOptions, AdapterPhase } from './errors';
+export type { EnvelopeHeader, PayloadCodec } from './envelope';
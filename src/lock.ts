@@ -0,0 +1,121 @@
+import type { StorageBackend } from './types';
+
+/** Releases a held file lock */
+export type ReleaseLock = () => Promise<void>;
+
+export interface FileLockOptions {
+  /** How long to wait for the lock before giving up */
+  timeoutMs: number;
+  /** Age after which a lock left by a crashed window is broken */
+  staleMs: number;
+  /** Delay between attempts to take the lock */
+  retryMs: number;
+}
+
+/**
+ * Takes an exclusive lock on a file by atomically creating `<filename>.lock`, so writes
+ * from other windows and processes are serialized with ours. The lock file holds a token
+ * unique to its owner, and a lock is only removed after checking that it still holds the
+ * token of its owner, or of the stale lock another window judged it to be.
+ *
+ * @throws {Error} If the lock cannot be taken within `timeoutMs`
+ */
+export async function acquireFileLock(
+  filename: string,
+  storage: StorageBackend,
+  options: FileLockOptions
+): Promise<ReleaseLock> {
+  const lock_filename = `${filename}.lock`;
+  const token = `${Date.now()}.${Math.random().toString(36).slice(2, 10)}`;
+  const started_at = Date.now();
+  let create_error: unknown;
+
+  while (true) {
+    try {
+      // createNew fails if the lock file already exists, which makes this a test-and-set
+      await storage.write(lock_filename, new TextEncoder().encode(token), { createNew: true });
+
+      return async () => {
+        try {
+          // A lock broken as stale may have been taken by another window since
+          if (!await removeLock(lock_filename, token, storage)) {
+            console.warn(`Lock ${lock_filename} was broken as stale while it was held`);
+          }
+        } catch (error) {
+          console.warn(`Failed to release lock ${lock_filename}:`, error);
+        }
+      };
+    } catch (error) {
+      // The lock may have been released between failing to create it and checking for it,
+      // so a missing lock is retried too, until the timeout
+      create_error = error;
+    }
+
+    const stale_token = await staleLockToken(lock_filename, storage, options.staleMs);
+    if (stale_token !== null) {
+      try {
+        // Another window may have broken the lock and taken it since it was found stale
+        if (await removeLock(lock_filename, stale_token, storage)) {
+          console.warn(`Breaking stale lock ${lock_filename}`);
+        }
+      } catch {
+        // Another window broke it first
+      }
+      continue;
+    }
+
+    if (Date.now() - started_at >= options.timeoutMs) {
+      throw new Error(`Timed out waiting for lock on ${filename}`, { cause: create_error });
+    }
+    await new Promise(resolve => setTimeout(resolve, options.retryMs));
+  }
+}
+
+/**
+ * Returns the token of a lock file older than the stale threshold, or null
+ */
+async function staleLockToken(lock_filename: string, storage: StorageBackend, staleMs: number): Promise<string | null> {
+  try {
+    const info = await storage.stat(lock_filename);
+    if (info.mtime === null || Date.now() - info.mtime.getTime() <= staleMs) return null;
+    return new TextDecoder().decode(await storage.read(lock_filename));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Removes a lock file if it still holds the token, returning whether it did. The token is
+ * checked before moving the lock to a name of its own, and again after, in case another
+ * window replaced the lock in between; a lock moved by mistake is put back with `createNew`,
+ * so it never replaces a lock taken since.
+ */
+async function removeLock(lock_filename: string, token: string, storage: StorageBackend): Promise<boolean> {
+  if (await readToken(lock_filename, storage) !== token) return false;
+
+  const moved_filename = `${lock_filename}.${Date.now()}.${Math.random().toString(36).slice(2, 10)}`;
+  await storage.rename(lock_filename, moved_filename);
+
+  const held_token = await readToken(moved_filename, storage);
+  if (held_token !== token) {
+    if (held_token !== null) {
+      await storage.write(lock_filename, new TextEncoder().encode(held_token), { createNew: true })
+        .catch(() => console.warn(`Lock ${lock_filename} was taken while another window's lock was put back`));
+    }
+    await storage.remove(moved_filename).catch(() => undefined);
+    return false;
+  }
+  await storage.remove(moved_filename);
+  return true;
+}
+
+/**
+ * Reads the token of a lock file, or null if it cannot be read
+ */
+async function readToken(lock_filename: string, storage: StorageBackend): Promise<string | null> {
+  try {
+    return new TextDecoder().decode(await storage.read(lock_filename));
+  } catch {
+    return null;
+  }
+}
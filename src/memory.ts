@@ -0,0 +1,259 @@
+import type { StorageBackend, StorageWriteOptions } from './types';
+import { StorageFaultError } from './errors';
+
+/** A storage method that faults can be injected into */
+export type StorageOperation = 'read' | 'write' | 'rename' | 'remove' | 'exists' | 'list' | 'stat';
+
+/** A call made to in-memory storage */
+export interface StorageCall {
+  operation: StorageOperation;
+  /** File the call was made with; the source of a rename, empty for `list` */
+  name: string;
+  /** Target of a rename */
+  to?: string;
+  /** Options of a write */
+  options?: StorageWriteOptions;
+}
+
+/** A failure to inject into a later storage call */
+export interface StorageFault {
+  operation: StorageOperation;
+  /** Which matching call triggers the fault, counting from 1 (default: 1) */
+  nth?: number;
+  /** Only count calls on matching files, e.g. `/\.tmp\./` for the temporary files of saves */
+  name?: string | RegExp;
+  /**
+   * What happens to the call (default: 'fail'):
+   * - `fail` rejects without changing anything
+   * - `partial` stores only the first `bytes` of a write, then rejects, like a torn write;
+   *   other operations fail
+   * - `complete` performs the call, e.g. to crash or delay right after it
+   */
+  effect?: 'fail' | 'partial' | 'complete';
+  /** Bytes a partial write stores (default: half of the data) */
+  bytes?: number;
+  /**
+   * Simulates the app dying at this call: the call rejects after its effect, and so does
+   * every later call until `restart()`
+   */
+  crash?: boolean;
+  /** Delays the call by this many milliseconds */
+  delayMs?: number;
+}
+
+export interface MemoryStorageOptions {
+  /** Storage id (default: a unique id per storage) */
+  id?: string;
+  /** Files to start with */
+  files?: Record<string, Uint8Array | string>;
+  /** Delay of every call in milliseconds, to simulate slow I/O (default: 0) */
+  latencyMs?: number;
+}
+
+/** Storage keeping files in memory, with fault injection for testing failure handling */
+export interface MemoryStorage extends StorageBackend {
+  readonly id: string;
+  /** Stored files by name; change it to seed or corrupt files without triggering faults */
+  readonly files: Map<string, Uint8Array>;
+  /** Every call made, in order */
+  readonly calls: StorageCall[];
+  /** Whether an injected crash happened and calls reject until `restart()` */
+  readonly crashed: boolean;
+  /** Arms a fault for a later call; each fault triggers once */
+  injectFault(fault: StorageFault): void;
+  /** Clears the crash state, like starting the app again; files stay as the crash left them */
+  restart(): void;
+  /** Writes a file as another process would, notifying watchers */
+  externalWrite(name: string, data: Uint8Array | string): void;
+}
+
+let next_memory_id = 1;
+
+/**
+ * Creates storage that keeps files in memory. Faults injected with `injectFault()` make
+ * a chosen call fail, tear or crash, so tests can check how an app handles `save()`
+ * failing at each step of the write sequence, which `calls` records.
+ */
+export function createMemoryStorage(options: MemoryStorageOptions = {}): MemoryStorage {
+  const files = new Map<string, Uint8Array>();
+  // Keyed by contents, so files replaced directly in `files` get a new modification time
+  const mtimes = new WeakMap<Uint8Array, Date>();
+  const calls: StorageCall[] = [];
+  const faults: { fault: StorageFault; remaining: number }[] = [];
+  const watchers = new Set<(names: string[]) => void>();
+  let crashed = false;
+  let last_mtime = 0;
+
+  /** Returns the modification time of contents, which differs from every earlier one */
+  function mtimeOf(data: Uint8Array): Date {
+    let mtime = mtimes.get(data);
+    if (!mtime) {
+      last_mtime = Math.max(Date.now(), last_mtime + 1);
+      mtime = new Date(last_mtime);
+      mtimes.set(data, mtime);
+    }
+    return mtime;
+  }
+
+  function notify(names: string[]): void {
+    for (const watcher of watchers) {
+      watcher(names);
+    }
+  }
+
+  function notFound(name: string): Error {
+    return new Error(`File not found: ${name}`);
+  }
+
+  /** Returns the fault armed for this call, counting it against every matching fault */
+  function takeFault(call: StorageCall): StorageFault | null {
+    let triggered: StorageFault | null = null;
+    for (const entry of [...faults]) {
+      const { fault } = entry;
+      if (fault.operation !== call.operation) continue;
+      if (fault.name !== undefined && !matches(fault.name, call.name) && !(call.to && matches(fault.name, call.to))) {
+        continue;
+      }
+      if (--entry.remaining > 0 || triggered) continue;
+
+      faults.splice(faults.indexOf(entry), 1);
+      triggered = fault;
+    }
+    return triggered;
+  }
+
+  /** Runs a call through latency, crash state and injected faults */
+  async function run<R>(call: StorageCall, perform: (fault: StorageFault | null) => R): Promise<R> {
+    calls.push(call);
+    if (options.latencyMs) await sleep(options.latencyMs);
+    if (crashed) {
+      throw new StorageFaultError(`Storage crashed before ${call.operation} ${call.name}`, call.operation, call.name);
+    }
+
+    const fault = takeFault(call);
+    if (fault?.delayMs) await sleep(fault.delayMs);
+
+    const effect = fault?.effect ?? 'fail';
+    if (!fault || effect === 'complete') {
+      const result = perform(fault);
+      if (fault?.crash) {
+        crashed = true;
+        throw new StorageFaultError(`Storage crashed after ${call.operation} ${call.name}`, call.operation, call.name);
+      }
+      return result;
+    }
+
+    if (effect === 'partial' && call.operation === 'write') {
+      perform(fault);
+    }
+    crashed ||= Boolean(fault.crash);
+    throw new StorageFaultError(
+      `Injected ${effect === 'partial' ? 'partial ' : ''}${call.operation} failure on ${call.name}`,
+      call.operation,
+      call.name
+    );
+  }
+
+  for (const [name, data] of Object.entries(options.files ?? {})) {
+    files.set(name, typeof data === 'string' ? new TextEncoder().encode(data) : data.slice());
+  }
+
+  const storage: MemoryStorage = {
+    id: options.id ?? `memory:${next_memory_id++}`,
+    files,
+    calls,
+
+    get crashed() {
+      return crashed;
+    },
+
+    read: name => run({ operation: 'read', name }, () => {
+      const data = files.get(name);
+      if (!data) throw notFound(name);
+      return data.slice();
+    }),
+
+    write: (name, data, write_options) => run({ operation: 'write', name, options: write_options }, (fault) => {
+      if (write_options?.createNew && files.has(name)) {
+        throw new Error(`File already exists: ${name}`);
+      }
+      const stored = fault?.effect === 'partial'
+        ? data.slice(0, fault.bytes ?? Math.floor(data.byteLength / 2))
+        : data.slice();
+      files.set(name, stored);
+      mtimeOf(stored);
+      notify([name]);
+    }),
+
+    rename: (from, to) => run({ operation: 'rename', name: from, to }, () => {
+      const data = files.get(from);
+      if (!data) throw notFound(from);
+      files.delete(from);
+      files.set(to, data);
+      notify([from, to]);
+    }),
+
+    remove: name => run({ operation: 'remove', name }, () => {
+      if (!files.delete(name)) throw notFound(name);
+      notify([name]);
+    }),
+
+    exists: name => run({ operation: 'exists', name }, () => files.has(name)),
+
+    list: () => run({ operation: 'list', name: '' }, () => [...files.keys()]),
+
+    stat: name => run({ operation: 'stat', name }, () => {
+      const data = files.get(name);
+      if (!data) throw notFound(name);
+      return { size: data.byteLength, mtime: mtimeOf(data) };
+    }),
+
+    async watch(callback, { delayMs }) {
+      // Batch notifications like a file system watcher
+      const changed = new Set<string>();
+      let timer: ReturnType<typeof setTimeout> | null = null;
+      const watcher = (names: string[]) => {
+        for (const name of names) changed.add(name);
+        timer ??= setTimeout(() => {
+          timer = null;
+          const batch = [...changed];
+          changed.clear();
+          callback(batch);
+        }, delayMs);
+      };
+      watchers.add(watcher);
+
+      return () => {
+        if (timer) clearTimeout(timer);
+        watchers.delete(watcher);
+      };
+    },
+
+    injectFault(fault) {
+      const nth = fault.nth ?? 1;
+      if (!Number.isInteger(nth) || nth < 1) {
+        throw new Error(`Invalid fault nth ${fault.nth}: must be a positive integer`);
+      }
+      faults.push({ fault, remaining: nth });
+    },
+
+    restart() {
+      crashed = false;
+    },
+
+    externalWrite(name, data) {
+      files.set(name, typeof data === 'string' ? new TextEncoder().encode(data) : data.slice());
+      notify([name]);
+    }
+  };
+
+  return storage;
+}
+
+function matches(pattern: string | RegExp, name: string): boolean {
+  return typeof pattern === 'string' ? pattern === name : pattern.test(name);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
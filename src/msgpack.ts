@@ -0,0 +1,276 @@
+import { ByteReader, ByteWriter, fromMapEntries, objectEntries, utf8_encoder } from './binary';
+
+/** Extension type of the standard MessagePack timestamp */
+const TIMESTAMP_EXT = -1;
+
+const INT64_MIN = -(2n ** 63n);
+const UINT64_MAX = 2n ** 64n - 1n;
+
+/**
+ * Encodes a value as MessagePack.
+ *
+ * Dates use the standard timestamp extension, `Set`s become arrays, and `BigInt`s are
+ * written as 64-bit integers, which decode back into `BigInt`s. Safe integers always use
+ * the smaller integer formats, so they decode back into numbers.
+ *
+ * @throws {TypeError} For functions and symbols
+ * @throws {RangeError} For `BigInt`s outside the 64-bit range
+ */
+export function encodeMsgpack(value: unknown): Uint8Array {
+  const writer = new ByteWriter();
+  encodeValue(value, writer);
+  return writer.finish();
+}
+
+/**
+ * Decodes MessagePack into a value. Maps with only string keys become plain objects,
+ * other maps become `Map`s.
+ *
+ * @throws {Error} If the data is truncated, malformed or has trailing bytes
+ */
+export function decodeMsgpack(data: Uint8Array): unknown {
+  const reader = new ByteReader(data);
+  const value = decodeValue(reader);
+  if (!reader.done) {
+    throw new Error('Unexpected trailing data after MessagePack value');
+  }
+  return value;
+}
+
+function encodeValue(value: unknown, writer: ByteWriter): void {
+  switch (typeof value) {
+    case 'undefined':
+      writer.uint8(0xc0);
+      return;
+    case 'boolean':
+      writer.uint8(value ? 0xc3 : 0xc2);
+      return;
+    case 'number':
+      encodeNumber(value, writer);
+      return;
+    case 'bigint':
+      encodeBigInt(value, writer);
+      return;
+    case 'string':
+      encodeString(value, writer);
+      return;
+    case 'object':
+      break;
+    default:
+      throw new TypeError(`Cannot encode a ${typeof value} as MessagePack`);
+  }
+
+  if (value === null) {
+    writer.uint8(0xc0);
+  } else if (value instanceof Uint8Array) {
+    writeLength(value.byteLength, [0xc4, 0xc5, 0xc6], writer);
+    writer.bytes(value);
+  } else if (value instanceof Date) {
+    encodeDate(value, writer);
+  } else if (Array.isArray(value) || value instanceof Set) {
+    const items = Array.from(value);
+    writeCollectionLength(items.length, 0x90, [0xdc, 0xdd], writer);
+    for (const item of items) encodeValue(item, writer);
+  } else {
+    const entries = value instanceof Map ? Array.from(value) : objectEntries(value);
+    writeCollectionLength(entries.length, 0x80, [0xde, 0xdf], writer);
+    for (const [key, entry] of entries) {
+      encodeValue(key, writer);
+      encodeValue(entry, writer);
+    }
+  }
+}
+
+function encodeNumber(value: number, writer: ByteWriter): void {
+  // Larger integers are exact as doubles, which keeps 64-bit formats free for BigInts
+  if (!Number.isInteger(value) || Math.abs(value) > 0xffffffff) {
+    writer.uint8(0xcb);
+    writer.float64(value);
+  } else if (value >= 0) {
+    if (value < 0x80) {
+      writer.uint8(value);
+    } else if (value <= 0xff) {
+      writer.uint8(0xcc);
+      writer.uint8(value);
+    } else if (value <= 0xffff) {
+      writer.uint8(0xcd);
+      writer.uint16(value);
+    } else {
+      writer.uint8(0xce);
+      writer.uint32(value);
+    }
+  } else if (value >= -32) {
+    writer.int8(value);
+  } else if (value >= -0x80) {
+    writer.uint8(0xd0);
+    writer.int8(value);
+  } else if (value >= -0x8000) {
+    writer.uint8(0xd1);
+    writer.int16(value);
+  } else if (value >= -0x80000000) {
+    writer.uint8(0xd2);
+    writer.int32(value);
+  } else {
+    writer.uint8(0xcb);
+    writer.float64(value);
+  }
+}
+
+function encodeBigInt(value: bigint, writer: ByteWriter): void {
+  if (value < INT64_MIN || value > UINT64_MAX) {
+    throw new RangeError(`BigInt ${value} does not fit in 64 bits`);
+  }
+  if (value < 0n) {
+    writer.uint8(0xd3);
+    writer.int64(value);
+  } else {
+    writer.uint8(0xcf);
+    writer.uint64(value);
+  }
+}
+
+function encodeString(value: string, writer: ByteWriter): void {
+  const bytes = utf8_encoder.encode(value);
+  if (bytes.byteLength < 32) {
+    writer.uint8(0xa0 | bytes.byteLength);
+  } else {
+    writeLength(bytes.byteLength, [0xd9, 0xda, 0xdb], writer);
+  }
+  writer.bytes(bytes);
+}
+
+/**
+ * Writes a date as a 96-bit timestamp; invalid dates become nil, as in JSON
+ */
+function encodeDate(value: Date, writer: ByteWriter): void {
+  const time = value.getTime();
+  if (Number.isNaN(time)) {
+    writer.uint8(0xc0);
+    return;
+  }
+
+  const seconds = Math.floor(time / 1000);
+  writer.uint8(0xc7);
+  writer.uint8(12);
+  writer.int8(TIMESTAMP_EXT);
+  writer.uint32((time - seconds * 1000) * 1_000_000);
+  writer.int64(BigInt(seconds));
+}
+
+/** Writes a length using the 8, 16 or 32-bit variant of a format */
+function writeLength(length: number, [format8, format16, format32]: number[], writer: ByteWriter): void {
+  if (length <= 0xff) {
+    writer.uint8(format8);
+    writer.uint8(length);
+  } else if (length <= 0xffff) {
+    writer.uint8(format16);
+    writer.uint16(length);
+  } else {
+    writer.uint8(format32);
+    writer.uint32(length);
+  }
+}
+
+/** Writes an array or map length, using the fix variant for short ones */
+function writeCollectionLength(length: number, fix: number, [format16, format32]: number[], writer: ByteWriter): void {
+  if (length < 16) {
+    writer.uint8(fix | length);
+  } else if (length <= 0xffff) {
+    writer.uint8(format16);
+    writer.uint16(length);
+  } else {
+    writer.uint8(format32);
+    writer.uint32(length);
+  }
+}
+
+function decodeValue(reader: ByteReader): unknown {
+  const byte = reader.uint8();
+
+  if (byte <= 0x7f) return byte;
+  if (byte <= 0x8f) return decodeMap(reader, byte & 0x0f);
+  if (byte <= 0x9f) return decodeArray(reader, byte & 0x0f);
+  if (byte <= 0xbf) return reader.utf8(byte & 0x1f);
+  if (byte >= 0xe0) return byte - 0x100;
+
+  switch (byte) {
+    case 0xc0: return null;
+    case 0xc2: return false;
+    case 0xc3: return true;
+    case 0xc4: return reader.bytes(reader.uint8());
+    case 0xc5: return reader.bytes(reader.uint16());
+    case 0xc6: return reader.bytes(reader.uint32());
+    case 0xc7: return decodeExtension(reader, reader.uint8());
+    case 0xc8: return decodeExtension(reader, reader.uint16());
+    case 0xc9: return decodeExtension(reader, reader.uint32());
+    case 0xca: return reader.float32();
+    case 0xcb: return reader.float64();
+    case 0xcc: return reader.uint8();
+    case 0xcd: return reader.uint16();
+    case 0xce: return reader.uint32();
+    case 0xcf: return reader.uint64();
+    case 0xd0: return reader.int8();
+    case 0xd1: return reader.int16();
+    case 0xd2: return reader.int32();
+    case 0xd3: return reader.int64();
+    case 0xd4: return decodeExtension(reader, 1);
+    case 0xd5: return decodeExtension(reader, 2);
+    case 0xd6: return decodeExtension(reader, 4);
+    case 0xd7: return decodeExtension(reader, 8);
+    case 0xd8: return decodeExtension(reader, 16);
+    case 0xd9: return reader.utf8(reader.uint8());
+    case 0xda: return reader.utf8(reader.uint16());
+    case 0xdb: return reader.utf8(reader.uint32());
+    case 0xdc: return decodeArray(reader, reader.uint16());
+    case 0xdd: return decodeArray(reader, reader.uint32());
+    case 0xde: return decodeMap(reader, reader.uint16());
+    case 0xdf: return decodeMap(reader, reader.uint32());
+    default:
+      throw new Error(`Invalid MessagePack format byte 0x${byte.toString(16)}`);
+  }
+}
+
+function decodeArray(reader: ByteReader, length: number): unknown[] {
+  const items: unknown[] = [];
+  for (let i = 0; i < length; i++) {
+    items.push(decodeValue(reader));
+  }
+  return items;
+}
+
+function decodeMap(reader: ByteReader, length: number): Record<string, unknown> | Map<unknown, unknown> {
+  const entries: [unknown, unknown][] = [];
+  for (let i = 0; i < length; i++) {
+    entries.push([decodeValue(reader), decodeValue(reader)]);
+  }
+  return fromMapEntries(entries);
+}
+
+/**
+ * Decodes an extension value; only the standard timestamp extension is supported
+ */
+function decodeExtension(reader: ByteReader, length: number): Date {
+  const type = reader.int8();
+  if (type !== TIMESTAMP_EXT) {
+    throw new Error(`Unsupported MessagePack extension type ${type}`);
+  }
+
+  switch (length) {
+    case 4:
+      return new Date(reader.uint32() * 1000);
+    case 8: {
+      // 30-bit nanoseconds followed by 34-bit seconds
+      const high = reader.uint32();
+      const low = reader.uint32();
+      const seconds = (high & 0x3) * 0x100000000 + low;
+      return new Date(seconds * 1000 + Math.floor((high >>> 2) / 1_000_000));
+    }
+    case 12: {
+      const nanoseconds = reader.uint32();
+      const seconds = Number(reader.int64());
+      return new Date(seconds * 1000 + Math.floor(nanoseconds / 1_000_000));
+    }
+    default:
+      throw new Error(`Invalid MessagePack timestamp length ${length}`);
+  }
+}
@@ -0,0 +1,117 @@
+import { watch as watchDirectory } from 'node:fs';
+import { access, mkdir, open, readdir, readFile, rename, rm, stat, writeFile } from 'node:fs/promises';
+import { basename, join, resolve } from 'node:path';
+import { PathError } from './errors';
+import type { StorageBackend } from './types';
+
+/**
+ * Creates storage in a directory on the local file system using Node's `fs/promises`,
+ * for scripts, tests and sidecars that share collection files with the Tauri app.
+ * The directory is created on the first write if it does not exist.
+ */
+export function createNodeStorage(root: string): StorageBackend {
+  const directory = resolve(root);
+  let created: Promise<unknown> | null = null;
+
+  /** Resolves a filename inside the directory */
+  function pathOf(name: string): string {
+    if (!name || basename(name) !== name || name === '.' || name === '..') {
+      throw new PathError(`Invalid storage filename ${JSON.stringify(name)}`, String(name));
+    }
+    return join(directory, name);
+  }
+
+  /** Creates the directory once */
+  function ensureDirectory(): Promise<unknown> {
+    created ??= mkdir(directory, { recursive: true }).catch((error) => {
+      created = null;
+      throw error;
+    });
+    return created;
+  }
+
+  return {
+    id: `node:${directory}`,
+
+    async read(name) {
+      const data = await readFile(pathOf(name));
+      // Buffer.slice() shares memory, unlike Uint8Array.slice()
+      return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+    },
+
+    async write(name, data, options = {}) {
+      const path = pathOf(name);
+      await ensureDirectory();
+      if (!options.createNew && !options.sync) {
+        await writeFile(path, data);
+        return;
+      }
+
+      // 'wx' fails if the file already exists
+      const handle = await open(path, options.createNew ? 'wx' : 'w');
+      try {
+        await handle.writeFile(data);
+        if (options.sync) {
+          await handle.sync();
+        }
+      } finally {
+        await handle.close();
+      }
+    },
+
+    // Replaces the target atomically, on Windows too
+    rename: (from, to) => rename(pathOf(from), pathOf(to)),
+
+    remove: name => rm(pathOf(name)),
+
+    async exists(name) {
+      try {
+        await access(pathOf(name));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+
+    async list() {
+      try {
+        const entries = await readdir(directory, { withFileTypes: true });
+        return entries.filter(entry => entry.isFile()).map(entry => entry.name);
+      } catch (error) {
+        // Nothing has been written yet
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw error;
+      }
+    },
+
+    async stat(name) {
+      const info = await stat(pathOf(name));
+      return { size: info.size, mtime: info.mtime };
+    },
+
+    async watch(callback, { delayMs }) {
+      await ensureDirectory();
+
+      // fs.watch reports every event separately, so batch them like the Tauri watcher
+      const changed = new Set<string>();
+      let timer: ReturnType<typeof setTimeout> | null = null;
+      const watcher = watchDirectory(directory, (_event, name) => {
+        if (!name) return;
+        changed.add(name.toString());
+        timer ??= setTimeout(() => {
+          timer = null;
+          const names = [...changed];
+          changed.clear();
+          callback(names);
+        }, delayMs);
+      });
+
+      return () => {
+        if (timer) clearTimeout(timer);
+        watcher.close();
+      };
+    }
+  };
+}
+
+export type { StorageBackend, StorageStat, StorageWriteOptions } from './types';
@@ -0,0 +1,34 @@
+import type { StorageBackend } from './types';
+
+/**
+ * Pending write chains, keyed by storage id and filename. Module-level so that
+ * every adapter instance pointing at the same file shares one queue.
+ */
+const write_queues = new Map<string, Promise<void>>();
+
+/**
+ * Creates the queue key for a file in a storage backend
+ */
+export function writeQueueKey(filename: string, storage: StorageBackend): string {
+  return `${storage.id}:${filename}`;
+}
+
+/**
+ * Runs a task once all previously enqueued tasks for the same key have settled,
+ * so writes to one file apply strictly in order. A failed task does not block later ones.
+ */
+export function enqueueWrite<R>(key: string, task: () => Promise<R>): Promise<R> {
+  const previous = write_queues.get(key) ?? Promise.resolve();
+  const result = previous.then(task);
+
+  const tail = result.then(() => undefined, () => undefined);
+  write_queues.set(key, tail);
+  tail.then(() => {
+    // Drop settled chains so idle files do not keep entries around
+    if (write_queues.get(key) === tail) {
+      write_queues.delete(key);
+    }
+  });
+
+  return result;
+}
@@ -0,0 +1,131 @@
+import type { BinarySerializer, TextSerializer } from './types';
+import { decodeMsgpack, encodeMsgpack } from './msgpack';
+import { decodeCbor, encodeCbor } from './cbor';
+import { base64ToBytes, bytesToBase64 } from './binary';
+
+/** Key marking an encoded value in tagged JSON */
+const TYPE_TAG = '$type';
+
+/**
+ * Plain JSON, the format used when no serializer is configured
+ */
+export const jsonSerializer: TextSerializer<any> = {
+  format: 'json',
+  serialize: items => JSON.stringify(items),
+  deserialize: text => JSON.parse(text)
+};
+
+/**
+ * JSON with type tags, so `Date`, `Map`, `Set`, `BigInt` and `Uint8Array` values
+ * survive a round trip instead of turning into strings or empty objects.
+ *
+ * Tagged values are stored as `{ "$type": "Date", "value": "2025-01-01T00:00:00.000Z" }`.
+ * Plain objects that have a `$type` key of their own are escaped, so they are never
+ * mistaken for tagged values.
+ */
+export const taggedJsonSerializer: TextSerializer<any> = {
+  format: 'json',
+  serialize: items => JSON.stringify(encodeTagged(items)),
+  deserialize: text => decodeTagged(JSON.parse(text)) as any[]
+};
+
+/**
+ * MessagePack, a compact binary format. Dates, `BigInt`s and `Uint8Array`s round-trip;
+ * `Set`s are stored as arrays, and `Map`s with string keys load as plain objects.
+ */
+export const msgpackSerializer: BinarySerializer<any> = {
+  format: 'msgpack',
+  binary: true,
+  serialize: items => encodeMsgpack(items),
+  deserialize: data => decodeMsgpack(data) as any[]
+};
+
+/**
+ * CBOR (RFC 8949), a compact binary format in which Dates, `Map`s, `Set`s, `BigInt`s
+ * and `Uint8Array`s all round-trip
+ */
+export const cborSerializer: BinarySerializer<any> = {
+  format: 'cbor',
+  binary: true,
+  serialize: items => encodeCbor(items),
+  deserialize: data => decodeCbor(data) as any[]
+};
+
+/**
+ * Replaces values JSON cannot represent with tagged objects
+ */
+function encodeTagged(value: unknown): unknown {
+  if (typeof value === 'bigint') {
+    return tag('BigInt', value.toString());
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (value instanceof Date) {
+    return tag('Date', Number.isNaN(value.getTime()) ? null : value.toISOString());
+  }
+  if (value instanceof Map) {
+    return tag('Map', Array.from(value, ([key, entry]) => [encodeTagged(key), encodeTagged(entry)]));
+  }
+  if (value instanceof Set) {
+    return tag('Set', Array.from(value, encodeTagged));
+  }
+  if (value instanceof Uint8Array) {
+    return tag('Uint8Array', bytesToBase64(value));
+  }
+  if (Array.isArray(value)) {
+    return value.map(encodeTagged);
+  }
+
+  // Object.fromEntries stores a `__proto__` key as data instead of setting the prototype
+  const encoded = Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, encodeTagged(entry)]));
+  return Object.prototype.hasOwnProperty.call(value, TYPE_TAG) ? tag('Object', encoded) : encoded;
+}
+
+/**
+ * Revives tagged objects into the values they encode
+ */
+function decodeTagged(value: unknown): unknown {
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(decodeTagged);
+  }
+
+  const record = value as Record<string, unknown>;
+  if (isTagged(record)) {
+    const tagged = record.value;
+    switch (record[TYPE_TAG]) {
+      case 'Date':
+        return new Date(tagged === null ? Number.NaN : tagged as string);
+      case 'BigInt':
+        return BigInt(tagged as string);
+      case 'Map':
+        return new Map((tagged as [unknown, unknown][]).map(([key, entry]) => [decodeTagged(key), decodeTagged(entry)]));
+      case 'Set':
+        return new Set((tagged as unknown[]).map(decodeTagged));
+      case 'Uint8Array':
+        return base64ToBytes(tagged as string);
+      case 'Object':
+        return decodeEntries(tagged as Record<string, unknown>);
+    }
+  }
+  return decodeEntries(record);
+}
+
+/** Decodes the values of a plain object, keeping a `__proto__` key as data */
+function decodeEntries(record: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(record).map(([key, entry]) => [key, decodeTagged(entry)]));
+}
+
+/** Creates a tagged value */
+function tag(type: string, value: unknown): Record<string, unknown> {
+  return { [TYPE_TAG]: type, value };
+}
+
+/** Checks whether an object is exactly a `{ $type, value }` pair */
+function isTagged(record: Record<string, unknown>): boolean {
+  const keys = Object.keys(record);
+  return keys.length === 2 && typeof record[TYPE_TAG] === 'string' && 'value' in record;
+}
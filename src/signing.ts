@@ -0,0 +1,55 @@
+import type { EnvelopeHeader } from './envelope';
+import type { IntegrityKey } from './types';
+import { base64ToBytes, bytesToBase64 } from './binary';
+
+/**
+ * Checks that an integrity key is usable before it is imported
+ *
+ * @throws {Error} If the key is empty, too short or not an HMAC key
+ */
+export function checkIntegrityKey(key: IntegrityKey): void {
+  if (typeof key === 'string') {
+    if (!key) throw new Error('integrityKey must not be empty');
+  } else if (key instanceof Uint8Array) {
+    if (key.byteLength < 16) throw new Error('integrityKey must be at least 16 bytes long');
+  } else if (key?.algorithm.name !== 'HMAC') {
+    throw new Error('integrityKey must be a string, raw bytes or an HMAC CryptoKey');
+  }
+}
+
+/**
+ * Imports an integrity key as an HMAC-SHA256 key; strings are used as UTF-8 bytes
+ */
+export async function importIntegrityKey(key: IntegrityKey): Promise<CryptoKey> {
+  if (!(typeof key === 'string' || key instanceof Uint8Array)) return key;
+  const raw = typeof key === 'string' ? new TextEncoder().encode(key) : key;
+  return crypto.subtle.importKey('raw', raw, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+/**
+ * Signs an envelope header with HMAC-SHA256. The header records the payload's checksum
+ * and size, so the signature covers the payload as well.
+ */
+export async function signHeader(header: EnvelopeHeader, key: CryptoKey): Promise<string> {
+  const signature = await crypto.subtle.sign('HMAC', key, signedBytes(header));
+  return bytesToBase64(new Uint8Array(signature));
+}
+
+/**
+ * Verifies the HMAC-SHA256 signature of an envelope header in constant time
+ */
+export async function verifyHeader(header: EnvelopeHeader & { hmac: string }, key: CryptoKey): Promise<boolean> {
+  let signature: Uint8Array;
+  try {
+    signature = base64ToBytes(header.hmac);
+  } catch {
+    return false;
+  }
+  return crypto.subtle.verify('HMAC', key, signature, signedBytes(header));
+}
+
+/** The bytes a header signature is computed over: the header without its signature */
+function signedBytes(header: EnvelopeHeader): Uint8Array {
+  const { hmac: _hmac, ...unsigned } = header;
+  return new TextEncoder().encode(JSON.stringify(unsigned));
+}
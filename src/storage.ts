@@ -0,0 +1,79 @@
+import {
+  BaseDirectory,
+  exists,
+  readFile,
+  writeFile,
+  remove,
+  open,
+  rename,
+  readDir,
+  stat,
+  watch
+} from '@tauri-apps/plugin-fs';
+import { isTauri } from '@tauri-apps/api/core';
+import type { StorageBackend } from './types';
+import { createBrowserStorage, isBrowserStorageAvailable, type BrowserStorageKind } from './browser';
+
+/**
+ * Creates storage backed by the Tauri file system plugin, in a base directory
+ * (default: `BaseDirectory.AppLocalData`)
+ */
+export function createTauriStorage(baseDir: BaseDirectory = BaseDirectory.AppLocalData): StorageBackend {
+  return {
+    id: baseDir,
+
+    read: name => readFile(name, { baseDir }),
+
+    async write(name, data, options = {}) {
+      if (!options.createNew && !options.sync) {
+        await writeFile(name, data, { baseDir });
+        return;
+      }
+
+      // plugin-fs has no fsync, and closing the handle does not flush the contents to disk,
+      // so `sync` only affects how the file is opened here
+      const handle = await open(name, options.createNew
+        ? { write: true, createNew: true, baseDir }
+        : { write: true, create: true, truncate: true, baseDir });
+      try {
+        await handle.write(data);
+      } finally {
+        await handle.close();
+      }
+    },
+
+    rename: (from, to) => rename(from, to, { oldPathBaseDir: baseDir, newPathBaseDir: baseDir }),
+
+    remove: name => remove(name, { baseDir }),
+
+    exists: name => exists(name, { baseDir }),
+
+    async list() {
+      const entries = await readDir('', { baseDir });
+      return entries.filter(entry => entry.isFile).map(entry => entry.name);
+    },
+
+    stat: name => stat(name, { baseDir }),
+
+    // Watch the directory rather than single files, since atomic saves replace a file's inode
+    watch: (callback, { delayMs }) => watch('', (event) => {
+      callback(event.paths.map(path => path.split(/[\\/]/).pop() ?? path));
+    }, { baseDir, delayMs })
+  };
+}
+
+/**
+ * Creates the storage used when no `storage` option is given: the Tauri file system, or
+ * browser storage named after the base directory when the app runs outside Tauri
+ */
+export function createDefaultStorage(
+  baseDir: BaseDirectory = BaseDirectory.AppLocalData,
+  fallback: BrowserStorageKind | false = 'indexeddb'
+): StorageBackend {
+  if (!fallback || isTauri() || !isBrowserStorageAvailable(fallback)) {
+    return createTauriStorage(baseDir);
+  }
+  const name = `signaldb-adapter-tauri-${BaseDirectory[baseDir] ?? baseDir}`;
+  console.info(`[DEV INFO] Tauri is not available; storing files in ${fallback} ${name} instead.`);
+  return createBrowserStorage(fallback, name);
+}
@@ -1,6 +1,69 @@
+import type { PersistenceAdapter } from '@signaldb/core';
+import type { Compression } from './compression';
+import type { BrowserStorageKind } from './browser';
+
+/**
+ * Encrypts the collection's items. With `encryptedFields` it is called once per field value
+ * instead, with the value wrapped in an array (`[value]`) in place of the items.
+ */
 export type EncryptFunction<T> = (data: T[]) => Promise<string>;
+/**
+ * Decrypts what the matching {@link EncryptFunction} returned. With `encryptedFields` it must
+ * return the field value wrapped in an array, as it was passed to the encrypt function.
+ */
 export type DecryptFunction<T> = (encrypted: string) => Promise<T[]>;
 
+/** Converts items to and from the text stored in the file */
+export interface TextSerializer<T> {
+  /** Name recorded as the envelope codec, e.g. `json` */
+  format?: string;
+  binary?: false;
+  serialize(items: T[]): string | Promise<string>;
+  deserialize(text: string): T[] | Promise<T[]>;
+}
+
+/** Converts items to and from the bytes stored in the file */
+export interface BinarySerializer<T> {
+  /** Name recorded as the envelope codec, e.g. `msgpack` */
+  format?: string;
+  binary: true;
+  serialize(items: T[]): Uint8Array | Promise<Uint8Array>;
+  deserialize(data: Uint8Array): T[] | Promise<T[]>;
+}
+
+export type Serializer<T> = TextSerializer<T> | BinarySerializer<T>;
+
+/** What a payload is encrypted for, e.g. to bind it as authenticated data */
+export interface EncryptionContext {
+  /** The collection file the payload belongs to */
+  filename: string;
+  /**
+   * Write generation recorded next to the payload when rollback protection is enabled.
+   * Authenticate it along with the filename, or an old payload can be relabeled as new.
+   */
+  generation?: number;
+}
+
+/**
+ * Encrypts the serialized payload bytes. Unlike `encrypt`/`decrypt`, which receive the
+ * items and serialize them themselves, this composes with any `serializer`.
+ */
+export interface PayloadEncryption {
+  /** Identifies the key; recorded in the envelope header so `load()` can pick it from the keyring */
+  keyId?: string;
+  encrypt(payload: Uint8Array, context: EncryptionContext): Promise<Uint8Array>;
+  decrypt(payload: Uint8Array, context: EncryptionContext): Promise<Uint8Array>;
+}
+
+/** Key passed to `unlock()`, e.g. a passphrase the user typed or a key from the OS keychain */
+export type UnlockKey = string | Uint8Array | CryptoKey;
+
+/** Secret for HMAC-SHA256 signing: text, at least 16 random bytes, or an HMAC `CryptoKey` */
+export type IntegrityKey = string | Uint8Array | CryptoKey;
+
+/** Creates the payload encryption once its key is known, e.g. after the user logs in */
+export type KeyProvider = (key: UnlockKey) => PayloadEncryption | Promise<PayloadEncryption>;
+
 export interface SecurityOptions {
   /** Whether to enforce encryption (throw error if encrypt/decrypt not provided) */
   enforceEncryption: boolean;
@@ -16,11 +79,263 @@ export interface SecurityOptions {
   createBackups: boolean;
   /** Maximum number of backup files to keep (default: 5) */
   maxBackups: number;
+  /**
+   * Whether to quarantine a corrupt file as `<filename>.corrupt.<timestamp>` and load
+   * the newest valid backup instead (default: false). Files that fail decryption or
+   * their signature are never replaced by a backup, since a wrong key looks just like
+   * corruption. save() never overwrites a file that cannot be read either way.
+   */
+  recoverFromBackups: boolean;
+  /** Whether to require an `integrityKey` (throw error if not provided) */
+  enforceIntegrity: boolean;
+  /**
+   * Whether to load files without a signature when an `integrityKey` is configured,
+   * e.g. written before signing was enabled (default: false). Wrong signatures always throw.
+   */
+  allowUnsignedData: boolean;
+  /**
+   * Whether to load a file older than the last seen generation when `rollbackProtection`
+   * is enabled, reporting it to `onRecovery` instead of throwing (default: false)
+   */
+  allowRollback: boolean;
+}
+
+/** Describes a recovery action the adapter took on its own */
+export type RecoveryEvent =
+  | {
+    /** A temporary file left by an interrupted save replaced a missing or corrupt main file */
+    type: 'temp-file-promoted';
+    filename: string;
+    /** Name of the temporary file that was promoted */
+    source: string;
+    /** Number of items in the recovered data */
+    itemCount: number;
+    /** Other temporary files that were removed */
+    discarded: string[];
+  }
+  | {
+    /** Leftover temporary files were removed because the main file was intact or they were unusable */
+    type: 'temp-files-discarded';
+    filename: string;
+    discarded: string[];
+  }
+  | {
+    /** A corrupt main file was quarantined and replaced with the newest valid backup */
+    type: 'backup-restored';
+    filename: string;
+    /** Id of the backup that was restored */
+    backupId: string;
+    /** Name the corrupt file was moved to */
+    quarantinedAs: string;
+    /** Number of items in the restored data */
+    itemCount: number;
+    /** Why the main file was considered corrupt */
+    reason: string;
+  }
+  | {
+    /** A file older than the last seen generation was loaded because `allowRollback` is set */
+    type: 'rollback-accepted';
+    filename: string;
+    /** Generation recorded in the file */
+    generation: number;
+    /** Last generation the adapter wrote or loaded */
+    expectedGeneration: number;
+  };
+
+export type RecoveryCallback = (event: RecoveryEvent) => void | Promise<void>;
+
+/**
+ * Upgrades items stored in one schema version to the next. Migrations receive the
+ * raw stored items, so they are typed loosely.
+ */
+export type Migration = (items: any[]) => unknown[] | Promise<unknown[]>;
+
+/** Options for coordinating windows that share a collection file */
+export interface MultiWindowOptions {
+  /** How long a save waits for another window to finish writing (default: 15000) */
+  lockTimeoutMs?: number;
+  /** Age after which a lock left behind by a crashed window is broken (default: 10000) */
+  staleLockMs?: number;
+}
+
+/** Size and modification time of a stored file */
+export interface StorageStat {
+  /** Size in bytes */
+  size: number;
+  /** Last modification time, or null if the storage does not record it */
+  mtime: Date | null;
+}
+
+export interface StorageWriteOptions {
+  /** Fail instead of replacing the file if it already exists, as a single atomic step */
+  createNew?: boolean;
+  /**
+   * Flush the contents to disk before resolving, e.g. before the file is renamed over another.
+   * Backends without a flush, like the Tauri file system, write the file without one.
+   */
+  sync?: boolean;
+}
+
+/**
+ * Flat directory of files the adapter persists to. Names are plain filenames without
+ * path separators. Operations reject when they fail, e.g. when reading a missing file.
+ */
+export interface StorageBackend {
+  /**
+   * Identifies the directory, e.g. the Tauri base directory. Adapters using the same
+   * id and filename share one write queue, so give distinct directories distinct ids.
+   */
+  readonly id: string | number;
+  /** Reads the whole file */
+  read(name: string): Promise<Uint8Array>;
+  /** Creates or replaces the file */
+  write(name: string, data: Uint8Array, options?: StorageWriteOptions): Promise<void>;
+  /** Moves a file over another in a single step, replacing the target */
+  rename(from: string, to: string): Promise<void>;
+  remove(name: string): Promise<void>;
+  exists(name: string): Promise<boolean>;
+  /** Lists the names of the files in the directory */
+  list(): Promise<string[]>;
+  stat(name: string): Promise<StorageStat>;
+  /**
+   * Calls `callback` with the names of files changed by anyone, resolving to a function
+   * that stops watching. Optional; `watchExternalChanges` requires it.
+   */
+  watch?(callback: (names: string[]) => void, options: { delayMs: number }): Promise<() => void>;
 }
 
 export interface AdapterOptions<T> {
   base_dir?: import('@tauri-apps/plugin-fs').BaseDirectory;
+  /**
+   * Where the collection file, its backups and temporary files are stored
+   * (default: the Tauri file system plugin in `base_dir`)
+   */
+  storage?: StorageBackend;
+  /**
+   * Browser storage used instead of the Tauri file system when the app runs outside
+   * Tauri, e.g. in a plain browser during `vite dev` (default: 'indexeddb').
+   * `false` always uses Tauri. Ignored when `storage` is given.
+   */
+  browserFallback?: BrowserStorageKind | false;
   encrypt?: EncryptFunction<T>;
   decrypt?: DecryptFunction<T>;
+  /** Encryption of the serialized payload; use instead of `encrypt`/`decrypt` with a `serializer` */
+  encryption?: PayloadEncryption;
+  /**
+   * Previous encryptions that can still decrypt files written before a key rotation.
+   * A payload with a key id is decrypted with the matching key; one without is tried
+   * with `encryption` and then each keyring entry in order.
+   */
+  keyring?: PayloadEncryption[];
+  /**
+   * Supplies the encryption when `unlock()` is called, for keys only known at runtime.
+   * The adapter starts locked: nothing is read until it is unlocked, and saves are
+   * rejected while locked. Use instead of `encryption`.
+   */
+  keyProvider?: KeyProvider;
+  /**
+   * Signs each save with HMAC-SHA256 and verifies the signature on load, so files
+   * edited outside the app are rejected with a `TamperError`. Works with or without
+   * encryption; the signature is recorded in the envelope header (enabling the envelope).
+   */
+  integrityKey?: IntegrityKey;
+  /**
+   * Records a write generation that increases with every save in the envelope header and
+   * mirrors it in `<filename>.meta`, so `load()` rejects older copies of the file with a
+   * `RollbackError`. The generation is authenticated by the `integrityKey` signature or
+   * bound to the payload encryption, one of which is required.
+   */
+  rollbackProtection?: boolean;
+  /**
+   * Dot-separated paths of fields to encrypt per item, e.g. `['ssn', 'notes.body']`,
+   * using `encryption`, the `keyProvider` or `encrypt`/`decrypt`. The rest of each item
+   * stays readable; each encrypted value is stored as `{ "$encrypted": "<ciphertext>" }`.
+   * A path through an array applies to every element, e.g. `contacts.ssn`. `encrypt` and
+   * `decrypt` receive and return each field value wrapped in an array, not items.
+   */
+  encryptedFields?: string[];
+  /** Converts items to and from text or bytes (default: plain JSON) */
+  serializer?: Serializer<T>;
+  /**
+   * Compresses the serialized items before encryption (default: 'none'). The compression
+   * is recorded in the envelope header (enabling the envelope), so files written with
+   * and without compression both load.
+   */
+  compression?: Compression;
   security?: Partial<SecurityOptions>;
+  /**
+   * Whether to wrap the payload in an envelope recording the format version, codec,
+   * SHA-256 checksum and item count, verified on load (default: false).
+   * Legacy bare files are still read either way.
+   */
+  envelope?: boolean;
+  /**
+   * Coalesces saves arriving within this many milliseconds into a single write.
+   * Disabled by default; call `flush()` to force pending changes to disk.
+   */
+  writeDebounceMs?: number;
+  /** Upper bound on how long coalesced changes may wait before being written */
+  maxWriteDelayMs?: number;
+  /**
+   * Whether to watch the file and push changes made by other windows, processes or
+   * sync tools to SignalDB (default: false). Our own saves are not echoed back.
+   */
+  watchExternalChanges?: boolean;
+  /** Debounce delay for file system events when watching external changes (default: 100) */
+  watchDelayMs?: number;
+  /**
+   * Whether to coordinate with other windows using the same file (default: false).
+   * Writes are serialized across windows with a `<filename>.lock` file, and each save
+   * is broadcast as a Tauri event so other windows reload the collection.
+   */
+  multiWindow?: boolean | MultiWindowOptions;
+  /**
+   * Version of the item shape this app writes. The version is recorded in the envelope
+   * header (enabling the envelope), and older files are migrated on load.
+   * Files without a recorded version are version 0.
+   */
+  schemaVersion?: number;
+  /** Ordered migrations, where `migrations[n]` upgrades items from version `n` to `n + 1` */
+  migrations?: Migration[];
+  /** Called when the adapter recovers data on its own, e.g. after an interrupted save */
+  onRecovery?: RecoveryCallback;
+}
+
+/** Metadata about a backup of a collection file */
+export interface BackupInfo {
+  /** Identifier to pass to `restoreBackup()` */
+  id: string;
+  /** Name of the backup file */
+  filename: string;
+  /** When the backup was taken */
+  timestamp: Date;
+  /** Size of the backup file in bytes */
+  size: number;
+  /** Number of items in the backup, or null if it cannot be decoded */
+  itemCount: number | null;
+}
+
+export interface TauriFileSystemAdapter<T extends { id: ID } & Record<string, any>, ID = string>
+  extends PersistenceAdapter<T, ID> {
+  /** Lists the backups of this collection, newest first */
+  listBackups(): Promise<BackupInfo[]>;
+  /** Atomically restores a backup and pushes its items to the registered change callback */
+  restoreBackup(id: string): Promise<void>;
+  /** Writes pending coalesced changes now and waits for every write in flight */
+  flush(): Promise<void>;
+  /** Atomically re-encrypts the collection file and its backups with the current encryption */
+  rekey(): Promise<void>;
+  /**
+   * Creates the encryption with the `keyProvider`, then loads the collection and pushes
+   * its items to the registered change callback. Rejects, staying locked, if the key
+   * cannot decrypt the file.
+   */
+  unlock(key: UnlockKey): Promise<void>;
+  /**
+   * Writes pending changes, forgets the key and wipes the decrypted items from the
+   * adapter's cache and the collection
+   */
+  lock(): Promise<void>;
+  /** Whether the adapter waits for `unlock()`; always false without a `keyProvider` */
+  isLocked(): boolean;
 }
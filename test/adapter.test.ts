@@ -34,13 +34,17 @@ const mock_write_file = mock(async (filename: string, data: Uint8Array, options?
   mock_file_system.set(full_path, data);
 });
 
-const mock_open = mock(async (filename: string, options: { write?: boolean; create?: boolean; baseDir?: BaseDirectory }) => {
+const mock_open = mock(async (filename: string, options: { write?: boolean; create?: boolean; createNew?: boolean; baseDir?: BaseDirectory }) => {
   const base_dir = options.baseDir || BaseDirectory.AppLocalData;
   const full_path = `${base_dir}/${filename}`;
+  if (options.createNew && mock_file_system.has(full_path)) {
+    throw new Error(`File exists: ${filename}`);
+  }
 
   return {
     write: mock(async (data: Uint8Array) => {
       mock_file_system.set(full_path, data);
+      return data.byteLength;
     }),
     truncate: mock(async () => {
       // Mock truncate - clear the file
@@ -58,6 +62,54 @@ const mock_remove = mock(async (filename: string, options?: { baseDir?: BaseDire
   mock_file_system.delete(full_path);
 });
 
+const mock_rename = mock(async (old_path: string, new_path: string, options?: { oldPathBaseDir?: BaseDirectory; newPathBaseDir?: BaseDirectory }): Promise<void> => {
+  const old_full_path = `${options?.oldPathBaseDir || BaseDirectory.AppLocalData}/${old_path}`;
+  const new_full_path = `${options?.newPathBaseDir || BaseDirectory.AppLocalData}/${new_path}`;
+  const content = mock_file_system.get(old_full_path);
+  if (!content) {
+    throw new Error(`File not found: ${old_path}`);
+  }
+  mock_file_system.delete(old_full_path);
+  mock_file_system.set(new_full_path, content);
+});
+
+const mock_read_dir = mock(async (path: string, options?: { baseDir?: BaseDirectory }) => {
+  const prefix = `${options?.baseDir || BaseDirectory.AppLocalData}/`;
+  return Array.from(mock_file_system.keys())
+    .filter(key => key.startsWith(prefix))
+    .map(key => ({ name: key.slice(prefix.length), isFile: true, isDirectory: false, isSymlink: false }));
+});
+
+// Every written buffer gets its own modification time, so rewrites are detectable
+let mock_clock = 0;
+const mock_mtimes = new WeakMap<Uint8Array, Date>();
+
+const mock_stat = mock(async (filename: string, options?: { baseDir?: BaseDirectory }) => {
+  const base_dir = options?.baseDir || BaseDirectory.AppLocalData;
+  const full_path = `${base_dir}/${filename}`;
+  const content = mock_file_system.get(full_path);
+  if (!content) {
+    throw new Error(`File not found: ${filename}`);
+  }
+  let mtime = mock_mtimes.get(content);
+  if (!mtime) {
+    mtime = new Date(++mock_clock);
+    mock_mtimes.set(content, mtime);
+  }
+  return { isFile: true, isDirectory: false, isSymlink: false, size: content.byteLength, mtime, atime: null, birthtime: null, readonly: false };
+});
+
+// Captures the watcher callback so tests can simulate file system events
+let watch_callback: ((event: { type: unknown; paths: string[]; attrs: unknown }) => void) | null = null;
+const mock_unwatch = mock(() => {
+  watch_callback = null;
+});
+
+const mock_watch = mock(async (path: string, callback: (event: { type: unknown; paths: string[]; attrs: unknown }) => void, options?: { baseDir?: BaseDirectory; delayMs?: number }) => {
+  watch_callback = callback;
+  return mock_unwatch;
+});
+
 // Mock only the filesystem functions, keep BaseDirectory as-is
 mock.module('@tauri-apps/plugin-fs', () => {
   const actual = require('@tauri-apps/plugin-fs');
@@ -68,11 +120,57 @@ mock.module('@tauri-apps/plugin-fs', () => {
     writeFile: mock_write_file,
     open: mock_open,
     remove: mock_remove,
+    rename: mock_rename,
+    readDir: mock_read_dir,
+    stat: mock_stat,
+    watch: mock_watch,
+  };
+});
+
+// In-process event bus standing in for Tauri's cross-window events
+const event_listeners = new Map<string, Set<(event: { event: string; id: number; payload: unknown }) => void>>();
+
+const mock_emit = mock(async (event: string, payload?: unknown): Promise<void> => {
+  for (const handler of event_listeners.get(event) ?? []) {
+    handler({ event, id: 0, payload });
+  }
+});
+
+const mock_listen = mock(async (event: string, handler: (event: { event: string; id: number; payload: unknown }) => void) => {
+  const handlers = event_listeners.get(event) ?? new Set();
+  handlers.add(handler);
+  event_listeners.set(event, handlers);
+  return () => {
+    handlers.delete(handler);
+  };
+});
+
+mock.module('@tauri-apps/api/event', () => {
+  const actual = require('@tauri-apps/api/event');
+  return {
+    ...actual,
+    emit: mock_emit,
+    listen: mock_listen,
   };
 });
 
 // Import after mocking
-const { createTauriFileSystemAdapter } = await import('../src/index');
+const {
+  createTauriFileSystemAdapter,
+  IntegrityError,
+  LockedError,
+  RollbackError,
+  SchemaVersionError,
+  TamperError,
+  taggedJsonSerializer,
+  msgpackSerializer,
+  cborSerializer,
+  encodeCbor,
+  decodeCbor,
+  decodeMsgpack,
+  createAesGcmEncryption,
+  aesGcmKeyProvider
+} = await import('../src/index');
 
 // Global warning suppression for cleaner test output
 let originalConsoleWarn: typeof console.warn;
@@ -85,6 +183,15 @@ beforeEach(() => {
   mock_write_file.mockClear();
   mock_open.mockClear();
   mock_remove.mockClear();
+  mock_rename.mockClear();
+  mock_read_dir.mockClear();
+  mock_stat.mockClear();
+  mock_watch.mockClear();
+  mock_unwatch.mockClear();
+  watch_callback = null;
+  mock_emit.mockClear();
+  mock_listen.mockClear();
+  event_listeners.clear();
 
   // Suppress non-critical warnings for cleaner test output
   originalConsoleWarn = console.warn;
@@ -546,3 +653,1329 @@ test('Save falls back to full save on mismatch', async () => {
   const result = await adapter.load();
   expect(result.items).toEqual(final_items);
 });
+
+test('Save promotes temporary file with rename instead of removing the original', async () => {
+  const adapter = createTauriFileSystemAdapter<TestData>('atomic-test.json');
+  if (!adapter) return;
+
+  await adapter.register(() => { });
+  mock_write_file.mockClear();
+
+  const test_data: TestData[] = [{ id: '1', name: 'Atomic', value: 1 }];
+  await adapter.save(test_data, { added: test_data, modified: [], removed: [] });
+
+  // The temporary file should be renamed over the target in a single step
+  expect(mock_rename).toHaveBeenCalledTimes(1);
+  const [temp_path, target_path] = mock_rename.mock.calls[0];
+  expect(temp_path).toStartWith('atomic-test.json.tmp.');
+  expect(target_path).toBe('atomic-test.json');
+
+  // The original file is never removed and the payload is not written twice
+  expect(mock_remove).not.toHaveBeenCalledWith('atomic-test.json', expect.anything());
+  expect(mock_write_file).not.toHaveBeenCalledWith('atomic-test.json', expect.anything(), expect.anything());
+
+  const result = await adapter.load();
+  expect(result.items).toEqual(test_data);
+});
+
+test('Failed rename keeps the previous file and cleans up the temporary file', async () => {
+  const adapter = createTauriFileSystemAdapter<TestData>('atomic-fail.json');
+  if (!adapter) return;
+
+  const initial_data: TestData[] = [{ id: '1', name: 'Original', value: 1 }];
+  mock_file_system.set(`${BaseDirectory.AppLocalData}/atomic-fail.json`, new TextEncoder().encode(JSON.stringify(initial_data)));
+  await adapter.register(() => { });
+
+  mock_rename.mockImplementationOnce(async () => {
+    throw new Error('Simulated crash during rename');
+  });
+
+  const new_data: TestData[] = [{ id: '2', name: 'New', value: 2 }];
+  await expect(adapter.save(new_data, { added: new_data, modified: [], removed: initial_data }))
+    .rejects.toThrow('Failed to save data to atomic-fail.json');
+
+  // Previous version is still intact and no temp files are left behind
+  const content = new TextDecoder().decode(mock_file_system.get(`${BaseDirectory.AppLocalData}/atomic-fail.json`)!);
+  expect(JSON.parse(content)).toEqual(initial_data);
+  expect(Array.from(mock_file_system.keys()).some(key => key.includes('.tmp.'))).toBe(false);
+});
+
+test('Register promotes the newest valid temp file when the main file is corrupt', async () => {
+  const recovered_data: TestData[] = [{ id: '1', name: 'Recovered', value: 1 }];
+  const older_data: TestData[] = [{ id: '2', name: 'Older', value: 2 }];
+
+  mock_file_system.set(`${BaseDirectory.AppLocalData}/crash-test.json`, new TextEncoder().encode('{"truncat'));
+  mock_file_system.set(`${BaseDirectory.AppLocalData}/crash-test.json.tmp.1000.abc`, new TextEncoder().encode(JSON.stringify(older_data)));
+  mock_file_system.set(`${BaseDirectory.AppLocalData}/crash-test.json.tmp.2000.def`, new TextEncoder().encode(JSON.stringify(recovered_data)));
+  mock_file_system.set(`${BaseDirectory.AppLocalData}/crash-test.json.tmp.3000.ghi`, new TextEncoder().encode('[{"id": "3"'));
+
+  const on_recovery = mock(() => { });
+  const adapter = createTauriFileSystemAdapter<TestData>('crash-test.json', { onRecovery: on_recovery });
+  if (!adapter) return;
+
+  let callback_data: any = null;
+  await adapter.register((data) => {
+    callback_data = data;
+  });
+
+  // The newest temp file that decodes and validates is promoted over the corrupt main file
+  expect(callback_data).toEqual({ items: recovered_data });
+  const content = new TextDecoder().decode(mock_file_system.get(`${BaseDirectory.AppLocalData}/crash-test.json`)!);
+  expect(JSON.parse(content)).toEqual(recovered_data);
+
+  // All other temp files are removed
+  expect(Array.from(mock_file_system.keys()).some(key => key.includes('.tmp.'))).toBe(false);
+
+  expect(on_recovery).toHaveBeenCalledWith({
+    type: 'temp-file-promoted',
+    filename: 'crash-test.json',
+    source: 'crash-test.json.tmp.2000.def',
+    itemCount: 1,
+    discarded: ['crash-test.json.tmp.3000.ghi', 'crash-test.json.tmp.1000.abc']
+  });
+});
+
+test('Register discards temp files when the main file is intact', async () => {
+  const committed_data: TestData[] = [{ id: '1', name: 'Committed', value: 1 }];
+  const uncommitted_data: TestData[] = [{ id: '2', name: 'Uncommitted', value: 2 }];
+
+  mock_file_system.set(`${BaseDirectory.AppLocalData}/intact.json`, new TextEncoder().encode(JSON.stringify(committed_data)));
+  mock_file_system.set(`${BaseDirectory.AppLocalData}/intact.json.tmp.1000.abc`, new TextEncoder().encode(JSON.stringify(uncommitted_data)));
+  // Temp files of other collections are left alone
+  mock_file_system.set(`${BaseDirectory.AppLocalData}/other.json.tmp.1000.abc`, new TextEncoder().encode('[]'));
+
+  const on_recovery = mock(() => { });
+  const adapter = createTauriFileSystemAdapter<TestData>('intact.json', { onRecovery: on_recovery });
+  if (!adapter) return;
+
+  await adapter.register(() => { });
+
+  const result = await adapter.load();
+  expect(result.items).toEqual(committed_data);
+  expect(mock_file_system.has(`${BaseDirectory.AppLocalData}/intact.json.tmp.1000.abc`)).toBe(false);
+  expect(mock_file_system.has(`${BaseDirectory.AppLocalData}/other.json.tmp.1000.abc`)).toBe(true);
+
+  expect(on_recovery).toHaveBeenCalledWith({
+    type: 'temp-files-discarded',
+    filename: 'intact.json',
+    discarded: ['intact.json.tmp.1000.abc']
+  });
+});
+
+test('Envelope records format header and checksum around the payload', async () => {
+  const adapter = createTauriFileSystemAdapter<TestData>('envelope-test.json', { envelope: true });
+  if (!adapter) return;
+
+  const test_data: TestData[] = [
+    { id: '1', name: 'First', value: 1 },
+    { id: '2', name: 'Second', value: 2 }
+  ];
+
+  await adapter.register(() => { });
+  await adapter.save(test_data, { added: test_data, modified: [], removed: [] });
+
+  const content_string = new TextDecoder().decode(mock_file_system.get(`${BaseDirectory.AppLocalData}/envelope-test.json`)!);
+  const [header_line, payload] = content_string.split('\n');
+  expect(header_line.startsWith('SDBT ')).toBe(true);
+  expect(payload).toBe(JSON.stringify(test_data));
+
+  const header = JSON.parse(header_line.slice('SDBT '.length));
+  expect(header).toMatchObject({ version: 1, codec: 'json', size: payload.length, itemCount: 2 });
+  expect(header.sha256).toMatch(/^[0-9a-f]{64}$/);
+
+  const result = await adapter.load();
+  expect(result.items).toEqual(test_data);
+});
+
+test('Envelope adapter still reads legacy bare files', async () => {
+  const legacy_data: TestData[] = [{ id: '1', name: 'Legacy', value: 1 }];
+  mock_file_system.set(`${BaseDirectory.AppLocalData}/legacy.json`, new TextEncoder().encode(JSON.stringify(legacy_data)));
+
+  const adapter = createTauriFileSystemAdapter<TestData>('legacy.json', { envelope: true });
+  if (!adapter) return;
+
+  const result = await adapter.load();
+  expect(result.items).toEqual(legacy_data);
+});
+
+test('Envelope checksum mismatch throws IntegrityError', async () => {
+  const adapter = createTauriFileSystemAdapter<TestData>('bitrot.json', { envelope: true });
+  if (!adapter) return;
+
+  const test_data: TestData[] = [{ id: '1', name: 'Intact', value: 100 }];
+  await adapter.register(() => { });
+  await adapter.save(test_data, { added: test_data, modified: [], removed: [] });
+
+  // Flip a single digit in the payload without changing its size
+  const path = `${BaseDirectory.AppLocalData}/bitrot.json`;
+  const corrupted = new TextDecoder().decode(mock_file_system.get(path)!).replace('100', '900');
+  mock_file_system.set(path, new TextEncoder().encode(corrupted));
+
+  const error = await adapter.load().catch(e => e);
+  expect(error).toBeInstanceOf(IntegrityError);
+  expect(error.message).toContain('Checksum mismatch in bitrot.json');
+  expect(error.filename).toBe('bitrot.json');
+
+  // Truncation is detected before parsing
+  mock_file_system.set(path, new TextEncoder().encode(corrupted.slice(0, -5)));
+  await expect(adapter.load()).rejects.toThrow('Payload size mismatch in bitrot.json');
+});
+
+test('Overlapping saves from adapters sharing a file apply strictly in order', async () => {
+  const initial_data: TestData[] = [
+    { id: '1', name: 'Item 1', value: 1 },
+    { id: '2', name: 'Item 2', value: 2 }
+  ];
+  mock_file_system.set(`${BaseDirectory.AppLocalData}/shared.json`, new TextEncoder().encode(JSON.stringify(initial_data)));
+
+  const adapter_a = createTauriFileSystemAdapter<TestData>('shared.json');
+  const adapter_b = createTauriFileSystemAdapter<TestData>('shared.json');
+  if (!adapter_a || !adapter_b) return;
+
+  await adapter_a.register(() => { });
+  await adapter_b.register(() => { });
+
+  // Each adapter only knows about its own modification
+  const modified_1 = { id: '1', name: 'Modified by A', value: 10 };
+  const modified_2 = { id: '2', name: 'Modified by B', value: 20 };
+
+  await Promise.all([
+    adapter_a.save([modified_1, initial_data[1]], { added: [], modified: [modified_1], removed: [] }),
+    adapter_b.save([initial_data[0], modified_2], { added: [], modified: [modified_2], removed: [] })
+  ]);
+
+  // The second save merges on top of the first instead of clobbering it
+  const result = await adapter_a.load();
+  expect(result.items).toEqual([modified_1, modified_2]);
+});
+
+test('A failed save does not block later saves to the same file', async () => {
+  let should_fail = true;
+  const adapter = createTauriFileSystemAdapter<TestData>('queue-failure.json', {
+    encrypt: async (data) => {
+      if (should_fail) {
+        should_fail = false;
+        throw new Error('Encryption failed');
+      }
+      return JSON.stringify(data);
+    },
+    decrypt: async (data) => JSON.parse(data)
+  });
+  if (!adapter) return;
+
+  mock_file_system.set(`${BaseDirectory.AppLocalData}/queue-failure.json`, new TextEncoder().encode('[]'));
+  await adapter.register(() => { });
+
+  const first: TestData[] = [{ id: '1', name: 'First', value: 1 }];
+  const second: TestData[] = [{ id: '2', name: 'Second', value: 2 }];
+
+  const results = await Promise.allSettled([
+    adapter.save(first, { added: first, modified: [], removed: [] }),
+    adapter.save(second, { added: second, modified: [], removed: [] })
+  ]);
+
+  expect(results[0].status).toBe('rejected');
+  expect(results[1].status).toBe('fulfilled');
+  expect((await adapter.load()).items).toEqual(second);
+});
+
+test('Debounced mode coalesces rapid saves into a single write', async () => {
+  const adapter = createTauriFileSystemAdapter<TestData>('debounce-test.json', { writeDebounceMs: 20 });
+  if (!adapter) return;
+
+  const on_change = mock(() => { });
+  await adapter.register(on_change);
+  mock_open.mockClear();
+
+  const item_1 = { id: '1', name: 'Item 1', value: 1 };
+  const item_2 = { id: '2', name: 'Item 2', value: 2 };
+  const item_1_modified = { id: '1', name: 'Item 1 modified', value: 10 };
+
+  const saves = [
+    adapter.save([item_1], { added: [item_1], modified: [], removed: [] }),
+    adapter.save([item_1, item_2], { added: [item_2], modified: [], removed: [] }),
+    adapter.save([item_1_modified, item_2], { added: [], modified: [item_1_modified], removed: [] }),
+    adapter.save([item_1_modified], { added: [], modified: [], removed: [item_2] })
+  ];
+
+  // Nothing is written while the debounce window is open
+  expect(mock_open).not.toHaveBeenCalled();
+
+  await Promise.all(saves);
+
+  expect(mock_open).toHaveBeenCalledTimes(1);
+  expect(on_change).toHaveBeenCalledTimes(1);
+  expect((await adapter.load()).items).toEqual([item_1_modified]);
+});
+
+test('flush() writes pending debounced changes immediately', async () => {
+  const adapter = createTauriFileSystemAdapter<TestData>('flush-test.json', { writeDebounceMs: 60_000 });
+  if (!adapter) return;
+
+  await adapter.register(() => { });
+
+  const test_data: TestData[] = [{ id: '1', name: 'Durable', value: 1 }];
+  const save_promise = adapter.save(test_data, { added: test_data, modified: [], removed: [] });
+
+  expect((await adapter.load()).items).toEqual([]);
+
+  await adapter.flush();
+  await save_promise;
+
+  expect((await adapter.load()).items).toEqual(test_data);
+});
+
+test('maxWriteDelayMs bounds how long debounced changes can wait', async () => {
+  const adapter = createTauriFileSystemAdapter<TestData>('max-delay-test.json', {
+    writeDebounceMs: 30,
+    maxWriteDelayMs: 50
+  });
+  if (!adapter) return;
+
+  await adapter.register(() => { });
+  mock_open.mockClear();
+
+  // Keep saving more often than the debounce delay
+  const saves: Promise<void>[] = [];
+  const items: TestData[] = [];
+  for (let i = 0; i < 8; i++) {
+    const item = { id: `${i}`, name: `Item ${i}`, value: i };
+    items.push(item);
+    saves.push(adapter.save([...items], { added: [item], modified: [], removed: [] }));
+    await new Promise(resolve => setTimeout(resolve, 15));
+  }
+
+  // At least one write happened before the saves stopped arriving
+  expect(mock_open.mock.calls.length).toBeGreaterThan(0);
+
+  await Promise.all(saves);
+  expect((await adapter.load()).items).toEqual(items);
+});
+
+test('Save applies changes to the cached items without re-reading the file', async () => {
+  const decrypt = mock(async (data: string) => JSON.parse(data));
+  const adapter = createTauriFileSystemAdapter<TestData>('cache-test.json', {
+    encrypt: async (data) => JSON.stringify(data),
+    decrypt
+  });
+  if (!adapter) return;
+
+  await adapter.register(() => { });
+
+  const item_1 = { id: '1', name: 'Item 1', value: 1 };
+  const item_2 = { id: '2', name: 'Item 2', value: 2 };
+  await adapter.save([item_1], { added: [item_1], modified: [], removed: [] });
+
+  mock_read_file.mockClear();
+  decrypt.mockClear();
+
+  await adapter.save([item_1, item_2], { added: [item_2], modified: [], removed: [] });
+
+  // Only the stat check touched the file before writing
+  expect(mock_read_file).not.toHaveBeenCalledWith('cache-test.json', expect.anything());
+  expect(decrypt).not.toHaveBeenCalled();
+  expect(mock_stat).toHaveBeenCalledWith('cache-test.json', { baseDir: BaseDirectory.AppLocalData });
+  expect((await adapter.load()).items).toEqual([item_1, item_2]);
+});
+
+test('Save reloads from disk when the file was modified externally', async () => {
+  const adapter = createTauriFileSystemAdapter<TestData>('external-test.json');
+  if (!adapter) return;
+
+  await adapter.register(() => { });
+
+  const item_1 = { id: '1', name: 'Item 1', value: 1 };
+  await adapter.save([item_1], { added: [item_1], modified: [], removed: [] });
+
+  // Another process adds an item behind the adapter's back
+  const external_item = { id: 'external', name: 'External', value: 99 };
+  mock_file_system.set(
+    `${BaseDirectory.AppLocalData}/external-test.json`,
+    new TextEncoder().encode(JSON.stringify([item_1, external_item]))
+  );
+
+  const item_2 = { id: '2', name: 'Item 2', value: 2 };
+  await adapter.save([item_1, external_item, item_2], { added: [item_2], modified: [], removed: [] });
+
+  expect(mock_read_file).toHaveBeenCalledWith('external-test.json', { baseDir: BaseDirectory.AppLocalData });
+  expect((await adapter.load()).items).toEqual([item_1, external_item, item_2]);
+});
+
+test('Watcher pushes external changes to the change callback', async () => {
+  const adapter = createTauriFileSystemAdapter<TestData>('watched.json', { watchExternalChanges: true });
+  if (!adapter) return;
+
+  const on_change = mock((data?: any) => { });
+  await adapter.register(on_change);
+
+  expect(mock_watch).toHaveBeenCalledWith('', expect.any(Function), { baseDir: BaseDirectory.AppLocalData, delayMs: 100 });
+
+  // Another window writes to the file
+  const external_data: TestData[] = [{ id: '1', name: 'From another window', value: 1 }];
+  mock_file_system.set(`${BaseDirectory.AppLocalData}/watched.json`, new TextEncoder().encode(JSON.stringify(external_data)));
+
+  // Events for other files are ignored
+  watch_callback?.({ type: 'any', paths: ['/home/user/.local/share/app/other.json'], attrs: null });
+  watch_callback?.({ type: 'any', paths: ['/home/user/.local/share/app/watched.json'], attrs: null });
+  await new Promise(resolve => setTimeout(resolve, 10));
+
+  expect(on_change).toHaveBeenCalledTimes(1);
+  expect(on_change).toHaveBeenCalledWith({ items: external_data });
+});
+
+test('Watcher does not echo our own saves', async () => {
+  const adapter = createTauriFileSystemAdapter<TestData>('self-write.json', { watchExternalChanges: true });
+  if (!adapter) return;
+
+  const on_change = mock((data?: any) => { });
+  await adapter.register(on_change);
+
+  const test_data: TestData[] = [{ id: '1', name: 'Own save', value: 1 }];
+  await adapter.save(test_data, { added: test_data, modified: [], removed: [] });
+  expect(on_change).toHaveBeenCalledTimes(1);
+
+  // The watcher reports the write we just made
+  watch_callback?.({ type: 'any', paths: ['C:\\Users\\user\\AppData\\Local\\app\\self-write.json'], attrs: null });
+  await new Promise(resolve => setTimeout(resolve, 10));
+
+  expect(on_change).toHaveBeenCalledTimes(1);
+});
+
+test('Unregister stops watching the file', async () => {
+  const adapter = createTauriFileSystemAdapter<TestData>('unwatch.json', { watchExternalChanges: true });
+  if (!adapter) return;
+
+  await adapter.register(() => { });
+  await adapter.unregister?.();
+
+  expect(mock_unwatch).toHaveBeenCalledTimes(1);
+});
+
+test('Multi-window saves are broadcast to other windows', async () => {
+  const window_a = createTauriFileSystemAdapter<TestData>('shared.json', { multiWindow: true });
+  const window_b = createTauriFileSystemAdapter<TestData>('shared.json', { multiWindow: true });
+  const other_file = createTauriFileSystemAdapter<TestData>('unrelated.json', { multiWindow: true });
+  if (!window_a || !window_b || !other_file) return;
+
+  const on_change_a = mock((data?: any) => { });
+  const on_change_b = mock((data?: any) => { });
+  const on_change_other = mock((data?: any) => { });
+  await window_a.register(on_change_a);
+  await window_b.register(on_change_b);
+  await other_file.register(on_change_other);
+
+  const test_data: TestData[] = [{ id: '1', name: 'Shared', value: 1 }];
+  await window_a.save(test_data, { added: test_data, modified: [], removed: [] });
+  await new Promise(resolve => setTimeout(resolve, 10));
+
+  expect(mock_emit).toHaveBeenCalledWith('signaldb-adapter-tauri://changed', expect.objectContaining({
+    filename: 'shared.json',
+    baseDir: BaseDirectory.AppLocalData
+  }));
+  // The writer is notified once by its own save, not again by its own broadcast
+  expect(on_change_a).toHaveBeenCalledTimes(1);
+  expect(on_change_b).toHaveBeenCalledWith({ items: test_data });
+  expect(on_change_other).not.toHaveBeenCalled();
+
+  // The lock is released after the write
+  expect(mock_file_system.has(`${BaseDirectory.AppLocalData}/shared.json.lock`)).toBe(false);
+
+  await window_b.unregister?.();
+  await window_a.save([], { added: [], modified: [], removed: test_data });
+  await new Promise(resolve => setTimeout(resolve, 10));
+  expect(on_change_b).toHaveBeenCalledTimes(1);
+});
+
+test('Multi-window save waits for the lock held by another window', async () => {
+  const adapter = createTauriFileSystemAdapter<TestData>('locked.json', {
+    multiWindow: { lockTimeoutMs: 1000, staleLockMs: Number.MAX_SAFE_INTEGER }
+  });
+  if (!adapter) return;
+
+  await adapter.register(() => { });
+
+  // Another window is in the middle of a write
+  const lock_path = `${BaseDirectory.AppLocalData}/locked.json.lock`;
+  mock_file_system.set(lock_path, new TextEncoder().encode(String(Date.now())));
+
+  const test_data: TestData[] = [{ id: '1', name: 'Waited', value: 1 }];
+  let saved = false;
+  const save = adapter.save(test_data, { added: test_data, modified: [], removed: [] }).then(() => {
+    saved = true;
+  });
+
+  await new Promise(resolve => setTimeout(resolve, 60));
+  expect(saved).toBe(false);
+
+  mock_file_system.delete(lock_path);
+  await save;
+
+  expect((await adapter.load()).items).toEqual(test_data);
+  expect(mock_file_system.has(lock_path)).toBe(false);
+});
+
+test('Multi-window save times out while another window holds the lock', async () => {
+  const adapter = createTauriFileSystemAdapter<TestData>('stuck.json', {
+    multiWindow: { lockTimeoutMs: 50, staleLockMs: Number.MAX_SAFE_INTEGER }
+  });
+  if (!adapter) return;
+
+  await adapter.register(() => { });
+  const lock_path = `${BaseDirectory.AppLocalData}/stuck.json.lock`;
+  mock_file_system.set(lock_path, new TextEncoder().encode('0'));
+
+  const test_data: TestData[] = [{ id: '1', name: 'Blocked', value: 1 }];
+  await expect(adapter.save(test_data, { added: test_data, modified: [], removed: [] }))
+    .rejects.toThrow('Timed out waiting for lock on stuck.json');
+
+  mock_file_system.delete(lock_path);
+  expect((await adapter.load()).items).toEqual([]);
+});
+
+test('Multi-window save breaks a stale lock', async () => {
+  const adapter = createTauriFileSystemAdapter<TestData>('stale.json', { multiWindow: true });
+  if (!adapter) return;
+
+  await adapter.register(() => { });
+
+  // A window crashed while holding the lock long ago
+  mock_file_system.set(`${BaseDirectory.AppLocalData}/stale.json.lock`, new TextEncoder().encode('0'));
+
+  const warn = mock((...args: any[]) => { });
+  console.warn = warn;
+
+  const test_data: TestData[] = [{ id: '1', name: 'Recovered', value: 1 }];
+  await adapter.save(test_data, { added: test_data, modified: [], removed: [] });
+
+  expect(warn).toHaveBeenCalledWith('Breaking stale lock stale.json.lock');
+  expect((await adapter.load()).items).toEqual(test_data);
+  expect(mock_file_system.has(`${BaseDirectory.AppLocalData}/stale.json.lock`)).toBe(false);
+});
+
+test('Load migrates files from older schema versions and rewrites them', async () => {
+  // Version 0 stored `title`, version 1 renamed it to `name`, version 2 added `value`
+  mock_file_system.set(
+    `${BaseDirectory.AppLocalData}/versioned.json`,
+    new TextEncoder().encode(JSON.stringify([{ id: '1', title: 'Old item' }]))
+  );
+
+  const migrations = [
+    mock(async (items: any[]) => items.map(({ title, ...rest }) => ({ ...rest, name: title }))),
+    mock((items: any[]) => items.map(item => ({ ...item, value: 0 })))
+  ];
+  const adapter = createTauriFileSystemAdapter<TestData>('versioned.json', {
+    schemaVersion: 2,
+    migrations,
+    security: {
+      dataValidator: <T>(data: unknown): data is T[] =>
+        Array.isArray(data) && data.every(item => typeof item.name === 'string' && typeof item.value === 'number')
+    }
+  });
+  if (!adapter) return;
+
+  const expected = [{ id: '1', name: 'Old item', value: 0 }];
+  expect((await adapter.load()).items).toEqual(expected);
+  expect(migrations[0]).toHaveBeenCalledTimes(1);
+  expect(migrations[1]).toHaveBeenCalledTimes(1);
+
+  // The file now records the new version, so loading again does not migrate
+  const contents = new TextDecoder().decode(mock_file_system.get(`${BaseDirectory.AppLocalData}/versioned.json`)!);
+  expect(contents.startsWith('SDBT ')).toBe(true);
+  expect(JSON.parse(contents.slice(5, contents.indexOf('\n')))).toMatchObject({ schemaVersion: 2, itemCount: 1 });
+
+  expect((await adapter.load()).items).toEqual(expected);
+  expect(migrations[0]).toHaveBeenCalledTimes(1);
+});
+
+test('Register writes new files in the configured schema version', async () => {
+  const adapter = createTauriFileSystemAdapter<TestData>('new-versioned.json', { schemaVersion: 3 });
+  if (!adapter) return;
+
+  await adapter.register(() => { });
+
+  const contents = new TextDecoder().decode(mock_file_system.get(`${BaseDirectory.AppLocalData}/new-versioned.json`)!);
+  expect(JSON.parse(contents.slice(5, contents.indexOf('\n')))).toMatchObject({ schemaVersion: 3 });
+  expect((await adapter.load()).items).toEqual([]);
+});
+
+test('Files from a newer schema version are neither loaded nor overwritten', async () => {
+  const newer = createTauriFileSystemAdapter<TestData>('future.json', { schemaVersion: 2 });
+  if (!newer) return;
+
+  await newer.register(() => { });
+  const item = { id: '1', name: 'From the future', value: 1 };
+  await newer.save([item], { added: [item], modified: [], removed: [] });
+  const written = mock_file_system.get(`${BaseDirectory.AppLocalData}/future.json`);
+
+  const older = createTauriFileSystemAdapter<TestData>('future.json', {
+    schemaVersion: 1,
+    security: { recoverFromBackups: true }
+  });
+  if (!older) return;
+
+  const error = await older.load().catch(error => error);
+  expect(error).toBeInstanceOf(SchemaVersionError);
+  expect(error).toMatchObject({ filename: 'future.json', storedVersion: 2, supportedVersion: 1, phase: 'load' });
+
+  const other = { id: '2', name: 'Old app', value: 2 };
+  await expect(older.save([item, other], { added: [other], modified: [], removed: [] }))
+    .rejects.toThrow('Failed to save data to future.json');
+  expect(mock_file_system.get(`${BaseDirectory.AppLocalData}/future.json`)).toBe(written);
+});
+
+test('Load fails when a migration step is missing', async () => {
+  mock_file_system.set(
+    `${BaseDirectory.AppLocalData}/gap.json`,
+    new TextEncoder().encode(JSON.stringify([{ id: '1', name: 'Item', value: 1 }]))
+  );
+
+  const adapter = createTauriFileSystemAdapter<TestData>('gap.json', {
+    schemaVersion: 2,
+    migrations: [items => items]
+  });
+  if (!adapter) return;
+
+  await expect(adapter.load()).rejects.toThrow('No migration from schema version 1 to 2 for gap.json');
+  // The unmigrated file is left untouched
+  expect(new TextDecoder().decode(mock_file_system.get(`${BaseDirectory.AppLocalData}/gap.json`)!))
+    .toBe(JSON.stringify([{ id: '1', name: 'Item', value: 1 }]));
+});
+
+test('Invalid schemaVersion is rejected', () => {
+  expect(() => createTauriFileSystemAdapter<TestData>('bad-version.json', { schemaVersion: 1.5 }))
+    .toThrow('Invalid schemaVersion 1.5: must be a non-negative integer');
+});
+
+test('Tagged JSON serializer round-trips rich types', async () => {
+  interface RichData {
+    id: string;
+    created: Date;
+    tags: Set<string>;
+    counts: Map<string, bigint>;
+    blob: Uint8Array;
+    meta: { $type: string; value: number };
+  }
+
+  const adapter = createTauriFileSystemAdapter<RichData>('rich.json', { serializer: taggedJsonSerializer });
+  if (!adapter) return;
+
+  const on_change = mock((data?: any) => { });
+  await adapter.register(on_change);
+
+  const item: RichData = {
+    id: '1',
+    created: new Date('2025-01-02T03:04:05.678Z'),
+    tags: new Set(['a', 'b']),
+    counts: new Map([['big', 12345678901234567890n]]),
+    blob: new Uint8Array([0, 1, 254, 255]),
+    // Looks like a tagged value, but is plain data
+    meta: { $type: 'Date', value: 42 }
+  };
+  await adapter.save([item], { added: [item], modified: [], removed: [] });
+
+  expect(on_change.mock.calls[0][0].items[0].created).toBeInstanceOf(Date);
+
+  // Read back from disk with a fresh adapter
+  const reader = createTauriFileSystemAdapter<RichData>('rich.json', { serializer: taggedJsonSerializer });
+  if (!reader) return;
+  const [loaded] = (await reader.load()).items!;
+
+  expect(loaded.created).toBeInstanceOf(Date);
+  expect(loaded.created.getTime()).toBe(item.created.getTime());
+  expect(loaded.tags).toEqual(new Set(['a', 'b']));
+  expect(loaded.counts.get('big')).toBe(12345678901234567890n);
+  expect(loaded.blob).toEqual(new Uint8Array([0, 1, 254, 255]));
+  expect(loaded.meta).toEqual({ $type: 'Date', value: 42 });
+});
+
+test('Payload encryption composes with the serializer', async () => {
+  // Flips every bit, so the plaintext never appears in the file
+  const encryption = {
+    encrypt: mock(async (payload: Uint8Array) => payload.map(byte => byte ^ 0xff)),
+    decrypt: mock(async (payload: Uint8Array) => payload.map(byte => byte ^ 0xff))
+  };
+  const adapter = createTauriFileSystemAdapter<{ id: string; due: Date }>('composed.json', {
+    serializer: taggedJsonSerializer,
+    encryption,
+    envelope: true
+  });
+  if (!adapter) return;
+
+  await adapter.register(() => { });
+  const item = { id: '1', due: new Date('2030-01-01T00:00:00.000Z') };
+  await adapter.save([item], { added: [item], modified: [], removed: [] });
+
+  // The encryption received the serialized, type-tagged text
+  expect(new TextDecoder().decode(encryption.encrypt.mock.lastCall![0])).toBe(
+    JSON.stringify([{ id: '1', due: { $type: 'Date', value: '2030-01-01T00:00:00.000Z' } }])
+  );
+  const contents = new TextDecoder().decode(mock_file_system.get(`${BaseDirectory.AppLocalData}/composed.json`)!);
+  expect(contents).toContain('"codec":"encrypted"');
+  expect(contents).not.toContain('2030');
+
+  const reader = createTauriFileSystemAdapter<{ id: string; due: Date }>('composed.json', {
+    serializer: taggedJsonSerializer,
+    encryption
+  });
+  if (!reader) return;
+  expect((await reader.load()).items).toEqual([item]);
+});
+
+test('Tagged JSON keeps __proto__ keys as data and never sets prototypes', () => {
+  const data = JSON.parse('{ "id": "1", "data": { "__proto__": { "polluted": true }, "x": 1 } }');
+
+  const [decoded] = taggedJsonSerializer.deserialize(taggedJsonSerializer.serialize([data]) as string);
+  expect(Object.keys(decoded.data)).toEqual(['__proto__', 'x']);
+  expect(Object.getPrototypeOf(decoded.data)).toBe(Object.prototype);
+  expect(decoded.data.polluted).toBeUndefined();
+
+  // A crafted file cannot set the prototype of a decoded object either
+  const [crafted] = taggedJsonSerializer.deserialize('[{ "id": "1", "__proto__": { "isAdmin": true } }]');
+  expect(crafted.isAdmin).toBeUndefined();
+  expect(Object.getOwnPropertyDescriptor(crafted, '__proto__')?.value).toEqual({ isAdmin: true });
+});
+
+test('Serializer cannot be combined with item-level encrypt/decrypt', () => {
+  expect(() => createTauriFileSystemAdapter<TestData>('conflict.json', {
+    serializer: taggedJsonSerializer,
+    encrypt: async (data) => JSON.stringify(data),
+    decrypt: async (data) => JSON.parse(data)
+  })).toThrow('cannot be combined with a serializer');
+});
+
+test.each([
+  ['MessagePack', msgpackSerializer, 'msgpack'],
+  ['CBOR', cborSerializer, 'cbor']
+])('%s serializer stores collections as bytes', async (_name, serializer, codec) => {
+  const adapter = createTauriFileSystemAdapter<any>(`${codec}.bin`, { serializer, envelope: true });
+  if (!adapter) return;
+
+  await adapter.register(() => { });
+
+  const item = {
+    id: '1',
+    name: 'Binary ünïcödé',
+    small: -7,
+    large: 2 ** 40,
+    ratio: 0.25,
+    big: 9007199254740993n,
+    flag: true,
+    missing: null,
+    created: new Date('2025-06-01T12:34:56.789Z'),
+    blob: new Uint8Array([1, 2, 3]),
+    nested: { list: [1, 'two', { three: 3 }] }
+  };
+  await adapter.save([item], { added: [item], modified: [], removed: [] });
+
+  const contents = mock_file_system.get(`${BaseDirectory.AppLocalData}/${codec}.bin`)!;
+  const text = new TextDecoder().decode(contents);
+  expect(text.slice(0, text.indexOf('\n'))).toContain(`"codec":"${codec}"`);
+
+  const reader = createTauriFileSystemAdapter<any>(`${codec}.bin`, { serializer });
+  if (!reader) return;
+  const [loaded] = (await reader.load()).items!;
+
+  expect(loaded.created).toBeInstanceOf(Date);
+  expect(loaded.created.getTime()).toBe(item.created.getTime());
+  expect(loaded.big).toBe(9007199254740993n);
+  expect(loaded.blob).toEqual(new Uint8Array([1, 2, 3]));
+  expect({ ...loaded, created: null }).toEqual({ ...item, created: null });
+
+  // A JSON adapter refuses the binary file instead of misreading it
+  const json_reader = createTauriFileSystemAdapter<any>(`${codec}.bin`);
+  if (!json_reader) return;
+  await expect(json_reader.load()).rejects.toThrow(`is stored as ${codec}, but the adapter is configured for json`);
+});
+
+test('CBOR round-trips Maps and Sets', () => {
+  const value = [{ id: '1', tags: new Set(['a', 'b']), scores: new Map<unknown, unknown>([['x', 1], [2, 'y']]) }];
+  expect(decodeCbor(encodeCbor(value))).toEqual(value);
+  expect(() => decodeCbor(encodeCbor(value).subarray(0, 10))).toThrow('Unexpected end of data');
+});
+
+test('MessagePack decodes the standard timestamp formats', () => {
+  // timestamp 32: 2021-01-01T00:00:00Z
+  expect(decodeMsgpack(new Uint8Array([0xd6, 0xff, 0x5f, 0xee, 0x66, 0x00]))).toEqual(new Date('2021-01-01T00:00:00Z'));
+  // timestamp 64 with 5 ms of nanoseconds
+  const nanoseconds = 5_000_000;
+  const high = (nanoseconds << 2) >>> 0;
+  const bytes = new Uint8Array(10);
+  const view = new DataView(bytes.buffer);
+  bytes.set([0xd7, 0xff]);
+  view.setUint32(2, high);
+  view.setUint32(6, 0x5fee6600);
+  expect(decodeMsgpack(bytes)).toEqual(new Date('2021-01-01T00:00:00.005Z'));
+});
+
+test.each(['gzip', 'deflate'] as const)('%s compression is applied before encryption and reversed on load', async (compression) => {
+  const encryption = {
+    encrypt: mock(async (payload: Uint8Array) => payload.map(byte => byte ^ 0xff)),
+    decrypt: mock(async (payload: Uint8Array) => payload.map(byte => byte ^ 0xff))
+  };
+  const adapter = createTauriFileSystemAdapter<TestData>(`${compression}.json`, { compression, encryption });
+  if (!adapter) return;
+
+  await adapter.register(() => { });
+
+  const items = Array.from({ length: 200 }, (_, i) => ({ id: String(i), name: 'Repetitive item name', value: i }));
+  await adapter.save(items, { added: items, modified: [], removed: [] });
+
+  // The encryption received compressed bytes, much smaller than the JSON
+  const encrypted_input = encryption.encrypt.mock.lastCall![0];
+  expect(encrypted_input.byteLength).toBeLessThan(JSON.stringify(items).length / 4);
+
+  const contents = new TextDecoder().decode(mock_file_system.get(`${BaseDirectory.AppLocalData}/${compression}.json`)!);
+  expect(contents.slice(0, contents.indexOf('\n'))).toContain(`"compression":"${compression}"`);
+
+  const reader = createTauriFileSystemAdapter<TestData>(`${compression}.json`, { encryption });
+  if (!reader) return;
+  expect((await reader.load()).items).toEqual(items);
+});
+
+test('Compressed and uncompressed files load with either setting', async () => {
+  const items = [{ id: '1', name: 'Item', value: 1 }];
+
+  const plain = createTauriFileSystemAdapter<TestData>('mixed.json');
+  if (!plain) return;
+  await plain.register(() => { });
+  await plain.save(items, { added: items, modified: [], removed: [] });
+
+  // A compressing adapter reads the existing uncompressed file and compresses on the next save
+  const compressing = createTauriFileSystemAdapter<TestData>('mixed.json', { compression: 'gzip' });
+  if (!compressing) return;
+  expect((await compressing.load()).items).toEqual(items);
+
+  const item_2 = { id: '2', name: 'Item 2', value: 2 };
+  await compressing.save([...items, item_2], { added: [item_2], modified: [], removed: [] });
+  const contents = mock_file_system.get(`${BaseDirectory.AppLocalData}/mixed.json`)!;
+  expect(new TextDecoder().decode(contents)).toContain('"compression":"gzip"');
+
+  // An adapter without compression still reads the compressed file
+  const reader = createTauriFileSystemAdapter<TestData>('mixed.json', { compression: 'none' });
+  if (!reader) return;
+  expect((await reader.load()).items).toEqual([...items, item_2]);
+});
+
+test('Compression cannot be combined with item-level encrypt/decrypt', () => {
+  expect(() => createTauriFileSystemAdapter<TestData>('compress-conflict.json', {
+    compression: 'gzip',
+    encrypt: async (data) => JSON.stringify(data),
+    decrypt: async (data) => JSON.parse(data)
+  })).toThrow('cannot be combined with compression');
+});
+
+test('AES-GCM encryption round-trips with a passphrase and fresh salt and IV per write', async () => {
+  // Few iterations keep the test fast; the default is 600000
+  const encryption = createAesGcmEncryption({ passphrase: 'correct horse battery staple', iterations: 1000 });
+  const adapter = createTauriFileSystemAdapter<TestData>('aes.json', { encryption });
+  if (!adapter) return;
+
+  await adapter.register(() => { });
+  const item = { id: '1', name: 'Top secret', value: 42 };
+  await adapter.save([item], { added: [item], modified: [], removed: [] });
+
+  const first = new TextDecoder().decode(mock_file_system.get(`${BaseDirectory.AppLocalData}/aes.json`)!);
+  expect(first).not.toContain('Top secret');
+  const header = JSON.parse(first.slice(0, first.indexOf('\n')));
+  expect(header).toMatchObject({ version: 1, cipher: 'AES-256-GCM', pbkdf2: { hash: 'SHA-256', iterations: 1000 } });
+
+  await adapter.save([item], { added: [], modified: [item], removed: [] });
+  const second = new TextDecoder().decode(mock_file_system.get(`${BaseDirectory.AppLocalData}/aes.json`)!);
+  const second_header = JSON.parse(second.slice(0, second.indexOf('\n')));
+  expect(second_header.salt).not.toBe(header.salt);
+  expect(second_header.iv).not.toBe(header.iv);
+
+  // A new instance with the same passphrase reads the KDF parameters from the file
+  const reader = createTauriFileSystemAdapter<TestData>('aes.json', {
+    encryption: createAesGcmEncryption({ passphrase: 'correct horse battery staple' })
+  });
+  if (!reader) return;
+  expect((await reader.load()).items).toEqual([item]);
+
+  const wrong = createTauriFileSystemAdapter<TestData>('aes.json', {
+    encryption: createAesGcmEncryption({ passphrase: 'wrong', iterations: 1000 })
+  });
+  if (!wrong) return;
+  await expect(wrong.load()).rejects.toThrow('Decryption failed and plaintext fallback is disabled');
+});
+
+test('AES-GCM binds the payload to its filename', async () => {
+  const encryption = createAesGcmEncryption({ key: crypto.getRandomValues(new Uint8Array(32)) });
+  const adapter = createTauriFileSystemAdapter<TestData>('bound.json', { encryption });
+  if (!adapter) return;
+
+  await adapter.register(() => { });
+  const item = { id: '1', name: 'Bound', value: 1 };
+  await adapter.save([item], { added: [item], modified: [], removed: [] });
+
+  // Copy the encrypted file over another collection that uses the same key
+  mock_file_system.set(
+    `${BaseDirectory.AppLocalData}/other-collection.json`,
+    mock_file_system.get(`${BaseDirectory.AppLocalData}/bound.json`)!
+  );
+  const other = createTauriFileSystemAdapter<TestData>('other-collection.json', { encryption });
+  if (!other) return;
+
+  await expect(other.load()).rejects.toThrow('belongs to another file');
+  expect((await adapter.load()).items).toEqual([item]);
+});
+
+test('AES-GCM rejects weak keys', () => {
+  expect(() => createAesGcmEncryption({ passphrase: '' })).toThrow('passphrase must not be empty');
+  expect(() => createAesGcmEncryption({ key: new Uint8Array(8) })).toThrow('at least 16 bytes');
+});
+
+test('Keyring decrypts files written with a rotated key and rekey re-encrypts them', async () => {
+  const old_key = createAesGcmEncryption({ key: crypto.getRandomValues(new Uint8Array(32)), keyId: '2024' });
+  const new_key = createAesGcmEncryption({ key: crypto.getRandomValues(new Uint8Array(32)), keyId: '2025' });
+
+  const old_adapter = createTauriFileSystemAdapter<TestData>('rotate.json', {
+    encryption: old_key,
+    security: { createBackups: true }
+  });
+  if (!old_adapter) return;
+
+  await old_adapter.register(() => { });
+  const item_1 = { id: '1', name: 'Item 1', value: 1 };
+  const item_2 = { id: '2', name: 'Item 2', value: 2 };
+  await old_adapter.save([item_1], { added: [item_1], modified: [], removed: [] });
+  await old_adapter.save([item_1, item_2], { added: [item_2], modified: [], removed: [] });
+
+  const readKeyIds = () => Array.from(mock_file_system.entries())
+    .filter(([path]) => path.startsWith(`${BaseDirectory.AppLocalData}/rotate.json`))
+    .map(([, contents]) => {
+      const text = new TextDecoder().decode(contents);
+      return JSON.parse(text.slice(5, text.indexOf('\n'))).keyId;
+    });
+  expect(readKeyIds()).toEqual(['2024', '2024', '2024']);
+
+  // After rotating, the old key stays in the keyring so existing files still load
+  const adapter = createTauriFileSystemAdapter<TestData>('rotate.json', {
+    encryption: new_key,
+    keyring: [old_key],
+    security: { createBackups: true }
+  });
+  if (!adapter) return;
+  expect((await adapter.load()).items).toEqual([item_1, item_2]);
+
+  await adapter.rekey();
+  expect(readKeyIds()).toEqual(['2025', '2025', '2025']);
+
+  // Every file, backups included, now loads without the old key
+  const fresh = createTauriFileSystemAdapter<TestData>('rotate.json', { encryption: new_key });
+  if (!fresh) return;
+  expect((await fresh.load()).items).toEqual([item_1, item_2]);
+  const backups = await fresh.listBackups();
+  expect(backups.map(backup => backup.itemCount).sort()).toEqual([0, 1]);
+});
+
+test('Load names a key id missing from the keyring', async () => {
+  const old_key = createAesGcmEncryption({ key: crypto.getRandomValues(new Uint8Array(32)), keyId: 'old' });
+  const writer = createTauriFileSystemAdapter<TestData>('missing-key.json', { encryption: old_key });
+  if (!writer) return;
+  await writer.register(() => { });
+
+  const reader = createTauriFileSystemAdapter<TestData>('missing-key.json', {
+    encryption: createAesGcmEncryption({ key: crypto.getRandomValues(new Uint8Array(32)), keyId: 'new' })
+  });
+  if (!reader) return;
+  await expect(reader.load()).rejects.toThrow('missing-key.json was encrypted with key old, which is not in the keyring');
+});
+
+test('Key provider adapter defers loading until unlocked', async () => {
+  const writer = createTauriFileSystemAdapter<TestData>('vault.json', {
+    encryption: createAesGcmEncryption({ passphrase: 'hunter2', iterations: 1000 })
+  });
+  if (!writer) return;
+  await writer.register(() => { });
+  const item = { id: '1', name: 'Secret', value: 1 };
+  await writer.save([item], { added: [item], modified: [], removed: [] });
+  const written = mock_file_system.get(`${BaseDirectory.AppLocalData}/vault.json`);
+
+  const callback = mock(async () => { });
+  const adapter = createTauriFileSystemAdapter<TestData>('vault.json', {
+    keyProvider: aesGcmKeyProvider({ iterations: 1000 })
+  });
+  if (!adapter) return;
+
+  mock_read_file.mockClear();
+  await adapter.register(callback);
+  expect(adapter.isLocked()).toBe(true);
+  expect((await adapter.load()).items).toEqual([]);
+  expect(mock_read_file).not.toHaveBeenCalled();
+  expect(callback).not.toHaveBeenCalled();
+
+  await adapter.unlock('hunter2');
+  expect(adapter.isLocked()).toBe(false);
+  expect(callback).toHaveBeenCalledWith({ items: [item] });
+  expect((await adapter.load()).items).toEqual([item]);
+  expect(mock_file_system.get(`${BaseDirectory.AppLocalData}/vault.json`)).toBe(written!);
+});
+
+test('Locked adapter rejects saves instead of writing', async () => {
+  const adapter = createTauriFileSystemAdapter<TestData>('locked.json', {
+    keyProvider: aesGcmKeyProvider({ iterations: 1000 })
+  });
+  if (!adapter) return;
+  await adapter.register(() => { });
+  expect(mock_file_system.has(`${BaseDirectory.AppLocalData}/locked.json`)).toBe(false);
+
+  const item = { id: '1', name: 'Item', value: 1 };
+  const locked_error = await adapter.save([item], { added: [item], modified: [], removed: [] }).catch(error => error);
+  expect(locked_error).toBeInstanceOf(LockedError);
+  expect(locked_error).toMatchObject({ code: 'LOCKED', phase: 'save' });
+  expect(mock_file_system.has(`${BaseDirectory.AppLocalData}/locked.json`)).toBe(false);
+
+  // Unlocking creates the file with the key, after which saves are encrypted
+  await adapter.unlock(crypto.getRandomValues(new Uint8Array(32)));
+  await adapter.save([item], { added: [item], modified: [], removed: [] });
+  const contents = new TextDecoder().decode(mock_file_system.get(`${BaseDirectory.AppLocalData}/locked.json`)!);
+  expect(contents).toContain('AES-256-GCM');
+  expect(contents).not.toContain('Item');
+});
+
+test('Lock writes pending changes and wipes decrypted items', async () => {
+  const callback = mock(async () => { });
+  const adapter = createTauriFileSystemAdapter<TestData>('relock.json', {
+    keyProvider: aesGcmKeyProvider({ iterations: 1000 }),
+    writeDebounceMs: 1000
+  });
+  if (!adapter) return;
+  await adapter.register(callback);
+  await adapter.unlock('passphrase');
+
+  const item = { id: '1', name: 'Pending', value: 1 };
+  const saved = adapter.save([item], { added: [item], modified: [], removed: [] });
+  await adapter.lock();
+  await saved;
+
+  expect(adapter.isLocked()).toBe(true);
+  expect(callback).toHaveBeenLastCalledWith({ items: [] });
+  expect((await adapter.load()).items).toEqual([]);
+  await expect(adapter.save([item], { added: [], modified: [item], removed: [] })).rejects.toThrow(LockedError);
+
+  await adapter.unlock('passphrase');
+  expect(callback).toHaveBeenLastCalledWith({ items: [item] });
+});
+
+test('Unlock with a wrong key rejects and stays locked', async () => {
+  const adapter = createTauriFileSystemAdapter<TestData>('wrong-key.json', {
+    keyProvider: aesGcmKeyProvider({ iterations: 1000 })
+  });
+  if (!adapter) return;
+  await adapter.register(() => { });
+  await adapter.unlock('right');
+  const item = { id: '1', name: 'Item', value: 1 };
+  await adapter.save([item], { added: [item], modified: [], removed: [] });
+  await adapter.lock();
+  const contents = mock_file_system.get(`${BaseDirectory.AppLocalData}/wrong-key.json`);
+
+  await expect(adapter.unlock('wrong')).rejects.toThrow('Decryption failed');
+  expect(adapter.isLocked()).toBe(true);
+  expect(mock_file_system.get(`${BaseDirectory.AppLocalData}/wrong-key.json`)).toBe(contents!);
+});
+
+test('Key provider cannot be combined with encryption', () => {
+  expect(() => createTauriFileSystemAdapter<TestData>('provider-conflict.json', {
+    keyProvider: aesGcmKeyProvider(),
+    encryption: createAesGcmEncryption({ passphrase: 'secret' })
+  })).toThrow('cannot be combined with encryption');
+});
+
+interface PersonData {
+  id: string;
+  name: string;
+  ssn?: string;
+  notes?: { title: string; body: string };
+}
+
+test('Encrypted fields are encrypted per item while the rest stays readable', async () => {
+  const validator = mock((data: unknown) => Array.isArray(data) &&
+    data.every(item => typeof item.ssn === 'string' && typeof item.notes.body === 'string'));
+  const adapter = createTauriFileSystemAdapter<PersonData>('people.json', {
+    encryption: createAesGcmEncryption({ key: crypto.getRandomValues(new Uint8Array(32)) }),
+    encryptedFields: ['ssn', 'notes.body'],
+    security: { dataValidator: validator as any }
+  });
+  if (!adapter) return;
+  await adapter.register(() => { });
+
+  const person = { id: '1', name: 'Ada', ssn: '078-05-1120', notes: { title: 'Visit', body: 'Allergic to penicillin' } };
+  await adapter.save([person], { added: [person], modified: [], removed: [] });
+
+  const stored = JSON.parse(new TextDecoder().decode(mock_file_system.get(`${BaseDirectory.AppLocalData}/people.json`)!));
+  expect(stored[0]).toMatchObject({ id: '1', name: 'Ada', notes: { title: 'Visit' } });
+  expect(Object.keys(stored[0].ssn)).toEqual(['$encrypted']);
+  expect(Object.keys(stored[0].notes.body)).toEqual(['$encrypted']);
+  expect(JSON.stringify(stored)).not.toContain('078-05-1120');
+  expect(JSON.stringify(stored)).not.toContain('penicillin');
+
+  // The collection's own items are never replaced by their encrypted form
+  expect(person.ssn).toBe('078-05-1120');
+
+  const wrong_key = createTauriFileSystemAdapter<PersonData>('people.json', {
+    encryption: createAesGcmEncryption({ key: new Uint8Array(32) }),
+    encryptedFields: ['ssn', 'notes.body']
+  });
+  if (!wrong_key) return;
+  await expect(wrong_key.load()).rejects.toThrow('Decryption failed');
+
+  // Loading decrypts the fields before validating them
+  validator.mockClear();
+  expect((await adapter.load()).items).toEqual([person]);
+  expect(validator).toHaveBeenCalledWith([person]);
+});
+
+test('Encrypted fields work with encrypt/decrypt functions and skip absent fields', async () => {
+  const adapter = createTauriFileSystemAdapter<PersonData>('people-fn.json', {
+    encrypt: async (data) => btoa(JSON.stringify(data)),
+    decrypt: async (encrypted) => JSON.parse(atob(encrypted)),
+    encryptedFields: ['ssn', 'notes.body']
+  });
+  if (!adapter) return;
+  await adapter.register(() => { });
+
+  const with_fields = { id: '1', name: 'Ada', ssn: '078-05-1120' };
+  const without_fields = { id: '2', name: 'Grace' };
+  await adapter.save([with_fields, without_fields], { added: [with_fields, without_fields], modified: [], removed: [] });
+
+  const stored = JSON.parse(new TextDecoder().decode(mock_file_system.get(`${BaseDirectory.AppLocalData}/people-fn.json`)!));
+  expect(stored[0].ssn).toEqual({ $encrypted: btoa(JSON.stringify(['078-05-1120'])) });
+  expect(stored[1]).toEqual(without_fields);
+  expect((await adapter.load()).items).toEqual([with_fields, without_fields]);
+});
+
+test('Plaintext values in encrypted fields are only accepted with plaintext fallback', async () => {
+  mock_file_system.set(
+    `${BaseDirectory.AppLocalData}/tampered-fields.json`,
+    new TextEncoder().encode(JSON.stringify([{ id: '1', name: 'Ada', ssn: 'replaced' }]))
+  );
+  const encryption = createAesGcmEncryption({ key: crypto.getRandomValues(new Uint8Array(32)) });
+
+  const strict = createTauriFileSystemAdapter<PersonData>('tampered-fields.json', {
+    encryption,
+    encryptedFields: ['ssn']
+  });
+  if (!strict) return;
+  await expect(strict.load()).rejects.toThrow('Field ssn in tampered-fields.json is not encrypted');
+
+  const lenient = createTauriFileSystemAdapter<PersonData>('tampered-fields.json', {
+    encryption,
+    encryptedFields: ['ssn'],
+    security: { allowPlaintextFallback: true }
+  });
+  if (!lenient) return;
+  expect((await lenient.load()).items).toEqual([{ id: '1', name: 'Ada', ssn: 'replaced' }]);
+});
+
+test('Encrypted field paths apply to every element of an array', async () => {
+  const encryption = createAesGcmEncryption({ key: crypto.getRandomValues(new Uint8Array(32)) });
+  const adapter = createTauriFileSystemAdapter<any>('contacts.json', { encryption, encryptedFields: ['contacts.ssn'] });
+  if (!adapter) return;
+  await adapter.register(() => { });
+
+  const item = { id: '1', contacts: [{ name: 'Ada', ssn: '123-45-6789' }, { name: 'Grace' }, 'note'] };
+  await adapter.save([item], { added: [item], modified: [], removed: [] });
+
+  const path = `${BaseDirectory.AppLocalData}/contacts.json`;
+  const stored = JSON.parse(new TextDecoder().decode(mock_file_system.get(path)!));
+  expect(JSON.stringify(stored)).not.toContain('123-45-6789');
+  expect(Object.keys(stored[0].contacts[0].ssn)).toEqual(['$encrypted']);
+  expect(stored[0].contacts.slice(1)).toEqual([{ name: 'Grace' }, 'note']);
+  expect((await adapter.load()).items).toEqual([item]);
+
+  // A plaintext value in an array element is caught on load like any other
+  stored[0].contacts[0].ssn = 'replaced';
+  mock_file_system.set(path, new TextEncoder().encode(JSON.stringify(stored)));
+  const reader = createTauriFileSystemAdapter<any>('contacts.json', { encryption, encryptedFields: ['contacts.ssn'] });
+  if (!reader) return;
+  await expect(reader.load()).rejects.toThrow('Field contacts.ssn in contacts.json is not encrypted');
+});
+
+test('Encrypted fields require encryption', () => {
+  expect(() => createTauriFileSystemAdapter<PersonData>('no-key-fields.json', {
+    encryptedFields: ['ssn']
+  })).toThrow('encryptedFields requires encryption');
+  expect(() => createTauriFileSystemAdapter<PersonData>('bad-path-fields.json', {
+    encryption: createAesGcmEncryption({ key: new Uint8Array(32) }),
+    encryptedFields: ['notes.']
+  })).toThrow('Invalid encrypted field path');
+});
+
+/** Splits an enveloped file into its parsed header and payload text */
+function readEnvelope(path: string): { header: any; payload: string } {
+  const text = new TextDecoder().decode(mock_file_system.get(`${BaseDirectory.AppLocalData}/${path}`)!);
+  const header_end = text.indexOf('\n');
+  return { header: JSON.parse(text.slice(5, header_end)), payload: text.slice(header_end + 1) };
+}
+
+/** Writes an envelope with a valid checksum, as someone editing the file by hand could */
+async function writeEnvelope(path: string, header: any, payload: string): Promise<void> {
+  const bytes = new TextEncoder().encode(payload);
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+  const sha256 = Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+  mock_file_system.set(
+    `${BaseDirectory.AppLocalData}/${path}`,
+    new TextEncoder().encode(`SDBT ${JSON.stringify({ ...header, sha256, size: bytes.byteLength })}\n${payload}`)
+  );
+}
+
+test('Integrity key signs saves and rejects files edited outside the app', async () => {
+  const adapter = createTauriFileSystemAdapter<TestData>('signed.json', { integrityKey: 'app secret' });
+  if (!adapter) return;
+  await adapter.register(() => { });
+
+  const item = { id: '1', name: 'Balance', value: 100 };
+  await adapter.save([item], { added: [item], modified: [], removed: [] });
+  const { header, payload } = readEnvelope('signed.json');
+  expect(typeof header.hmac).toBe('string');
+  expect(JSON.parse(payload)).toEqual([item]);
+  expect((await adapter.load()).items).toEqual([item]);
+
+  // Editing the payload and fixing up the checksum is not enough
+  const original = mock_file_system.get(`${BaseDirectory.AppLocalData}/signed.json`)!;
+  await writeEnvelope('signed.json', header, JSON.stringify([{ ...item, value: 1_000_000 }]));
+  const tampered = mock_file_system.get(`${BaseDirectory.AppLocalData}/signed.json`)!;
+  const error = await adapter.load().catch(error => error);
+  expect(error).toBeInstanceOf(TamperError);
+  expect(error).toBeInstanceOf(IntegrityError);
+  expect(error).toMatchObject({ reason: 'invalid', phase: 'load' });
+
+  // Saves refuse to overwrite the tampered file
+  await expect(adapter.save([item], { added: [], modified: [item], removed: [] })).rejects.toThrow('Failed to save data');
+  expect(mock_file_system.get(`${BaseDirectory.AppLocalData}/signed.json`)).toBe(tampered);
+
+  // A different key cannot verify the original file either
+  mock_file_system.set(`${BaseDirectory.AppLocalData}/signed.json`, original);
+  const other = createTauriFileSystemAdapter<TestData>('signed.json', { integrityKey: 'other secret' });
+  if (!other) return;
+  await expect(other.load()).rejects.toThrow('Signature mismatch in signed.json');
+});
+
+test('Unsigned files are rejected unless allowUnsignedData is set', async () => {
+  const item = { id: '1', name: 'Legacy', value: 1 };
+  mock_file_system.set(`${BaseDirectory.AppLocalData}/unsigned.json`, new TextEncoder().encode(JSON.stringify([item])));
+
+  const strict = createTauriFileSystemAdapter<TestData>('unsigned.json', { integrityKey: 'app secret' });
+  if (!strict) return;
+  const error = await strict.load().catch(error => error);
+  expect(error).toBeInstanceOf(TamperError);
+  expect(error.reason).toBe('missing');
+
+  // A stripped signature counts as missing too
+  await writeEnvelope('unsigned.json', { version: 1, codec: 'json', itemCount: 1 }, JSON.stringify([item]));
+  await expect(strict.load()).rejects.toThrow('unsigned.json is not signed');
+
+  const lenient = createTauriFileSystemAdapter<TestData>('unsigned.json', {
+    integrityKey: 'app secret',
+    security: { allowUnsignedData: true }
+  });
+  if (!lenient) return;
+  await lenient.register(() => { });
+  expect((await lenient.load()).items).toEqual([item]);
+
+  // The next save signs the file
+  await lenient.save([item], { added: [], modified: [item], removed: [] });
+  expect(typeof readEnvelope('unsigned.json').header.hmac).toBe('string');
+  expect((await strict.load()).items).toEqual([item]);
+});
+
+test('Integrity key is validated and can be enforced', () => {
+  expect(() => createTauriFileSystemAdapter<TestData>('weak-hmac.json', {
+    integrityKey: new Uint8Array(8)
+  })).toThrow('at least 16 bytes');
+  expect(() => createTauriFileSystemAdapter<TestData>('enforced-hmac.json', {
+    security: { enforceIntegrity: true }
+  })).toThrow('Integrity is enforced');
+});
+
+test('Rollback protection refuses an older copy of an encrypted file', async () => {
+  const encryption = createAesGcmEncryption({ key: crypto.getRandomValues(new Uint8Array(32)) });
+  const adapter = createTauriFileSystemAdapter<TestData>('ledger.json', { encryption, rollbackProtection: true });
+  if (!adapter) return;
+  await adapter.register(() => { });
+
+  const item = { id: '1', name: 'Balance', value: 100 };
+  await adapter.save([item], { added: [item], modified: [], removed: [] });
+  const old_copy = mock_file_system.get(`${BaseDirectory.AppLocalData}/ledger.json`)!;
+  const spent = { ...item, value: 0 };
+  await adapter.save([spent], { added: [], modified: [spent], removed: [] });
+
+  expect(readEnvelope('ledger.json').header.generation).toBe(3);
+  const metadata = new TextDecoder().decode(mock_file_system.get(`${BaseDirectory.AppLocalData}/ledger.json.meta`)!);
+  expect(JSON.parse(metadata)).toEqual({ generation: 3 });
+
+  // Put the old, validly encrypted file back
+  mock_file_system.set(`${BaseDirectory.AppLocalData}/ledger.json`, old_copy);
+  const error = await adapter.load().catch(error => error);
+  expect(error).toBeInstanceOf(RollbackError);
+  expect(error).toMatchObject({ storedGeneration: 2, expectedGeneration: 3, phase: 'load' });
+
+  // A new instance knows the last generation from the metadata file, and saves leave the file alone
+  const reopened = createTauriFileSystemAdapter<TestData>('ledger.json', { encryption, rollbackProtection: true });
+  if (!reopened) return;
+  await expect(reopened.load()).rejects.toThrow('ledger.json has generation 2, but generation 3 was already seen');
+  await expect(reopened.save([spent], { added: [], modified: [spent], removed: [] })).rejects.toThrow('Failed to save data');
+  expect(mock_file_system.get(`${BaseDirectory.AppLocalData}/ledger.json`)).toBe(old_copy);
+
+  // Relabeling the old file as a newer generation breaks its authentication
+  const header_end = old_copy.indexOf(0x0a);
+  const header = new TextDecoder().decode(old_copy.subarray(0, header_end)).replace('"generation":2', '"generation":9');
+  const relabeled = new Uint8Array(old_copy);
+  relabeled.set(new TextEncoder().encode(header));
+  mock_file_system.set(`${BaseDirectory.AppLocalData}/ledger.json`, relabeled);
+  await expect(reopened.load()).rejects.toThrow('Decryption failed');
+});
+
+test('Rollback protection with an integrity key, allowRollback and backup restores', async () => {
+  const on_recovery = mock(() => { });
+  const options = {
+    integrityKey: 'app secret',
+    rollbackProtection: true,
+    security: { createBackups: true },
+    onRecovery: on_recovery
+  };
+  const adapter = createTauriFileSystemAdapter<TestData>('signed-ledger.json', options);
+  if (!adapter) return;
+  await adapter.register(() => { });
+
+  const item = { id: '1', name: 'Balance', value: 100 };
+  await adapter.save([item], { added: [item], modified: [], removed: [] });
+  const spent = { ...item, value: 0 };
+  await adapter.save([spent], { added: [], modified: [spent], removed: [] });
+
+  // Restoring a backup is a deliberate rollback, so it is written as a new generation
+  const [newest] = await adapter.listBackups();
+  await adapter.restoreBackup(newest.id);
+  expect(readEnvelope('signed-ledger.json').header.generation).toBe(4);
+  expect((await adapter.load()).items).toEqual([item]);
+
+  // Relabeling an old file breaks its signature
+  const { header, payload } = readEnvelope(newest.filename);
+  mock_file_system.set(
+    `${BaseDirectory.AppLocalData}/signed-ledger.json`,
+    new TextEncoder().encode(`SDBT ${JSON.stringify({ ...header, generation: 10 })}\n${payload}`)
+  );
+  await expect(adapter.load()).rejects.toBeInstanceOf(TamperError);
+
+  // With allowRollback an old file loads and is reported
+  mock_file_system.set(`${BaseDirectory.AppLocalData}/signed-ledger.json`, mock_file_system.get(`${BaseDirectory.AppLocalData}/${newest.filename}`)!);
+  const lenient = createTauriFileSystemAdapter<TestData>('signed-ledger.json', {
+    ...options,
+    security: { ...options.security, allowRollback: true }
+  });
+  if (!lenient) return;
+  expect((await lenient.load()).items).toEqual([item]);
+  expect(on_recovery).toHaveBeenLastCalledWith({
+    type: 'rollback-accepted',
+    filename: 'signed-ledger.json',
+    generation: 2,
+    expectedGeneration: 4
+  });
+});
+
+test('Rollback protection requires an integrity key or payload encryption', () => {
+  expect(() => createTauriFileSystemAdapter<TestData>('unprotected-ledger.json', {
+    rollbackProtection: true
+  })).toThrow('rollbackProtection requires an integrityKey or payload encryption');
+});
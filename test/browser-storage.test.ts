@@ -0,0 +1,298 @@
+import { test, expect, beforeEach, afterEach, mock } from 'bun:test';
+import { BaseDirectory } from '@tauri-apps/plugin-fs';
+import {
+  createTauriFileSystemAdapter,
+  createAesGcmEncryption,
+  createIndexedDbStorage,
+  createOpfsStorage,
+  type StorageBackend
+} from '../src/index';
+import { createDefaultStorage } from '../src/storage';
+
+// Test data interface
+interface TestData {
+  id: string;
+  name: string;
+  value: number;
+}
+
+/**
+ * Minimal IndexedDB with a single object store per database. Each transaction works on
+ * a copy of the data that is committed once its last request has completed.
+ */
+function createFakeIndexedDb() {
+  const databases = new Map<string, Map<string, unknown>>();
+
+  function createTransaction(data: Map<string, unknown>) {
+    const staged = new Map(data);
+    let pending = 0;
+    let aborted = false;
+    const transaction: any = {
+      oncomplete: null,
+      onabort: null,
+      error: null,
+      abort() {
+        if (aborted) return;
+        aborted = true;
+        queueMicrotask(() => transaction.onabort?.());
+      },
+      objectStore: () => store
+    };
+
+    function request(operation: () => unknown) {
+      const req: any = { result: undefined, error: null, onsuccess: null, onerror: null };
+      pending++;
+      setTimeout(() => {
+        if (aborted) return;
+        try {
+          req.result = operation();
+          req.onsuccess?.();
+        } catch (error) {
+          req.error = error;
+          let prevented = false;
+          req.onerror?.({ preventDefault: () => { prevented = true; } });
+          if (!prevented) transaction.abort();
+        }
+        if (--pending === 0 && !aborted) {
+          for (const key of [...data.keys()]) data.delete(key);
+          for (const [key, value] of staged) data.set(key, value);
+          transaction.oncomplete?.();
+        }
+      });
+      return req;
+    }
+
+    const store = {
+      get: (key: string) => request(() => structuredClone(staged.get(key))),
+      put: (value: unknown, key: string) => request(() => { staged.set(key, structuredClone(value)); }),
+      add: (value: unknown, key: string) => request(() => {
+        if (staged.has(key)) throw new Error('ConstraintError');
+        staged.set(key, structuredClone(value));
+      }),
+      delete: (key: string) => request(() => { staged.delete(key); }),
+      count: (key: string) => request(() => (staged.has(key) ? 1 : 0)),
+      getAllKeys: () => request(() => [...staged.keys()])
+    };
+    return transaction;
+  }
+
+  return {
+    databases,
+    open(name: string) {
+      const req: any = { result: null, onupgradeneeded: null, onsuccess: null, onerror: null };
+      setTimeout(() => {
+        let data = databases.get(name);
+        req.result = {
+          createObjectStore: () => { },
+          transaction: () => createTransaction(data!)
+        };
+        if (!data) {
+          data = new Map();
+          databases.set(name, data);
+          req.onupgradeneeded?.();
+        }
+        req.onsuccess?.();
+      });
+      return req;
+    }
+  };
+}
+
+/**
+ * Minimal origin private file system: nested directories of files whose writables
+ * only replace the contents on close()
+ */
+function createFakeOpfs() {
+  const directories = new Map<string, Map<string, File>>();
+
+  function notFound(name: string): DOMException {
+    return new DOMException(`${name} not found`, 'NotFoundError');
+  }
+
+  function directoryHandle(files: Map<string, File>) {
+    return {
+      kind: 'directory',
+      async getFileHandle(name: string, options?: { create?: boolean }) {
+        if (!files.has(name)) {
+          if (!options?.create) throw notFound(name);
+          files.set(name, new File([], name));
+        }
+        return {
+          kind: 'file',
+          name,
+          async getFile() {
+            const file = files.get(name);
+            if (!file) throw notFound(name);
+            return file;
+          },
+          async createWritable() {
+            const chunks: Uint8Array[] = [];
+            return {
+              async write(data: Uint8Array) {
+                chunks.push(data.slice());
+              },
+              async close() {
+                files.set(name, new File(chunks, name, { lastModified: Date.now() }));
+              },
+              async abort() { }
+            };
+          }
+        };
+      },
+      async removeEntry(name: string) {
+        if (!files.delete(name)) throw notFound(name);
+      },
+      async *values() {
+        for (const name of files.keys()) {
+          yield { kind: 'file', name };
+        }
+      }
+    };
+  }
+
+  return {
+    directories,
+    async getDirectory() {
+      return {
+        async getDirectoryHandle(name: string, options?: { create?: boolean }) {
+          if (!directories.has(name)) {
+            if (!options?.create) throw notFound(name);
+            directories.set(name, new Map());
+          }
+          return directoryHandle(directories.get(name)!);
+        }
+      };
+    }
+  };
+}
+
+let fake_indexed_db: ReturnType<typeof createFakeIndexedDb>;
+let fake_opfs: ReturnType<typeof createFakeOpfs>;
+let originalConsoleWarn: typeof console.warn;
+let originalConsoleInfo: typeof console.info;
+
+beforeEach(() => {
+  fake_indexed_db = createFakeIndexedDb();
+  fake_opfs = createFakeOpfs();
+  (globalThis as any).indexedDB = fake_indexed_db;
+  Object.defineProperty(navigator, 'storage', { value: fake_opfs, configurable: true });
+
+  originalConsoleWarn = console.warn;
+  originalConsoleInfo = console.info;
+  console.warn = (...args: any[]) => {
+    if (args.join(' ').includes('[SECURITY WARNING]')) return;
+    originalConsoleWarn(...args);
+  };
+  console.info = mock(() => { });
+});
+
+afterEach(() => {
+  delete (globalThis as any).indexedDB;
+  delete (globalThis as any).isTauri;
+  delete (navigator as any).storage;
+  console.warn = originalConsoleWarn;
+  console.info = originalConsoleInfo;
+});
+
+/** Reads a stored file of the IndexedDB fallback */
+function indexedDbFile(database: string, name: string): Uint8Array | undefined {
+  return (fake_indexed_db.databases.get(database)?.get(name) as { data: Uint8Array } | undefined)?.data;
+}
+
+test('Default storage falls back to IndexedDB outside Tauri', () => {
+  expect(createDefaultStorage().id).toBe('indexeddb:signaldb-adapter-tauri-AppLocalData');
+  expect(createDefaultStorage(BaseDirectory.AppConfig, 'opfs').id).toBe('opfs:signaldb-adapter-tauri-AppConfig');
+  expect(console.info).toHaveBeenCalledWith(expect.stringContaining('Tauri is not available'));
+
+  // Without browser storage, e.g. in Node, the Tauri file system stays the default
+  delete (globalThis as any).indexedDB;
+  expect(createDefaultStorage().id).toBe(BaseDirectory.AppLocalData);
+});
+
+test('Default storage uses the Tauri file system inside Tauri or when the fallback is disabled', () => {
+  expect(createDefaultStorage(BaseDirectory.AppLocalData, false).id).toBe(BaseDirectory.AppLocalData);
+
+  (globalThis as any).isTauri = true;
+  expect(createDefaultStorage(BaseDirectory.AppConfig).id).toBe(BaseDirectory.AppConfig);
+});
+
+test('Adapter stores the encrypted file format in IndexedDB outside Tauri', async () => {
+  const options = () => ({
+    encryption: createAesGcmEncryption({ key: new Uint8Array(32).fill(9) }),
+    envelope: true,
+    security: { createBackups: true }
+  });
+  const adapter = createTauriFileSystemAdapter<TestData>('todos.json', options());
+  await adapter.register(() => { });
+
+  const test_data: TestData[] = [{ id: '1', name: 'Browser', value: 1 }];
+  await adapter.save(test_data, { added: test_data, modified: [], removed: [] });
+
+  const database = 'signaldb-adapter-tauri-AppLocalData';
+  const contents = indexedDbFile(database, 'todos.json')!;
+  expect(new TextDecoder().decode(contents.subarray(0, 5))).toBe('SDBT ');
+  expect(new TextDecoder().decode(contents)).not.toContain('Browser');
+  // The atomic write's temporary file was renamed away
+  expect([...fake_indexed_db.databases.get(database)!.keys()].some(name => name.includes('.tmp.'))).toBe(false);
+
+  // Another adapter, e.g. after a page reload, reads the file back
+  const reloaded = createTauriFileSystemAdapter<TestData>('todos.json', options());
+  expect((await reloaded.load()).items).toEqual(test_data);
+  expect(await reloaded.listBackups()).toHaveLength(1);
+});
+
+test('Adapter can use OPFS as the browser fallback', async () => {
+  const adapter = createTauriFileSystemAdapter<TestData>('todos.json', { browserFallback: 'opfs' });
+  await adapter.register(() => { });
+
+  const test_data: TestData[] = [{ id: '1', name: 'OPFS', value: 1 }];
+  await adapter.save(test_data, { added: test_data, modified: [], removed: [] });
+
+  const files = fake_opfs.directories.get('signaldb-adapter-tauri-AppLocalData')!;
+  expect([...files.keys()]).toEqual(['todos.json']);
+  expect(JSON.parse(await files.get('todos.json')!.text())).toEqual(test_data);
+  expect((await adapter.load()).items).toEqual(test_data);
+});
+
+for (const [kind, create] of [
+  ['IndexedDB', () => createIndexedDbStorage('exclusive')],
+  ['OPFS', () => createOpfsStorage('exclusive')]
+] as [string, () => StorageBackend][]) {
+  test(`${kind} storage supports exclusive creates, renames and stat`, async () => {
+    const storage = create();
+    await storage.write('a.lock', new TextEncoder().encode('1'), { createNew: true });
+    await expect(storage.write('a.lock', new TextEncoder().encode('2'), { createNew: true }))
+      .rejects.toThrow('File already exists');
+
+    await storage.write('b', new TextEncoder().encode('new'));
+    await storage.rename('b', 'a.lock');
+    expect(new TextDecoder().decode(await storage.read('a.lock'))).toBe('new');
+    expect(await storage.exists('b')).toBe(false);
+    expect(await storage.list()).toEqual(['a.lock']);
+    expect((await storage.stat('a.lock')).size).toBe(3);
+
+    await expect(storage.read('missing')).rejects.toThrow('File not found');
+    await expect(storage.rename('missing', 'a.lock')).rejects.toThrow('File not found');
+  });
+}
+
+test('Browser storage announces writes to watchers in other tabs', async () => {
+  const tab_a = createTauriFileSystemAdapter<TestData>('shared.json', { storage: createIndexedDbStorage('tabs') });
+  const tab_b = createTauriFileSystemAdapter<TestData>('shared.json', {
+    storage: createIndexedDbStorage('tabs'),
+    watchExternalChanges: true,
+    watchDelayMs: 10
+  });
+
+  const on_change_b = mock((data?: any) => { });
+  await tab_a.register(() => { });
+  await tab_b.register(on_change_b);
+  on_change_b.mockClear();
+
+  const test_data: TestData[] = [{ id: '1', name: 'From tab A', value: 1 }];
+  await tab_a.save(test_data, { added: test_data, modified: [], removed: [] });
+  await new Promise(resolve => setTimeout(resolve, 50));
+
+  expect(on_change_b).toHaveBeenCalledWith({ items: test_data });
+  await tab_b.unregister?.();
+});
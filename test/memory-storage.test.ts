@@ -0,0 +1,397 @@
+import { test, expect, beforeEach, afterEach, mock, setSystemTime } from 'bun:test';
+import {
+  createTauriFileSystemAdapter,
+  createAesGcmEncryption,
+  createMemoryStorage,
+  ConfigurationError,
+  DecryptionError,
+  IntegrityError,
+  ReadError,
+  RollbackError,
+  StorageFaultError,
+  WriteError,
+  type MemoryStorage
+} from '../src/index';
+import { acquireFileLock } from '../src/lock';
+
+// Test data interface
+interface TestData {
+  id: string;
+  name: string;
+  value: number;
+}
+
+const initial_data: TestData[] = [{ id: '1', name: 'Initial', value: 1 }];
+const new_data: TestData[] = [{ id: '1', name: 'Initial', value: 1 }, { id: '2', name: 'New', value: 2 }];
+
+let originalConsoleWarn: typeof console.warn;
+
+beforeEach(() => {
+  originalConsoleWarn = console.warn;
+  console.warn = mock(() => { });
+});
+
+afterEach(() => {
+  console.warn = originalConsoleWarn;
+});
+
+/** Storage holding a collection file with the initial items */
+function seededStorage(): MemoryStorage {
+  return createMemoryStorage({ files: { 'items.json': JSON.stringify(initial_data) } });
+}
+
+/** Saves the new items through a fresh adapter */
+async function saveNewData(storage: MemoryStorage, options = {}): Promise<void> {
+  const adapter = createTauriFileSystemAdapter<TestData>('items.json', { storage, ...options });
+  await adapter.register(() => { });
+  await adapter.save(new_data, { added: [new_data[1]], modified: [], removed: [] });
+}
+
+/** Returns the storage fault that made a save fail, from the chain of error causes */
+async function faultOf(save: Promise<unknown>): Promise<StorageFaultError> {
+  let error: unknown = await save.then(() => {
+    throw new Error('Expected the save to fail');
+  }, (error: unknown) => error);
+  while (error instanceof Error && !(error instanceof StorageFaultError)) {
+    error = error.cause;
+  }
+  expect(error).toBeInstanceOf(StorageFaultError);
+  return error as StorageFaultError;
+}
+
+/** Loads the collection the way the app does after a restart */
+async function loadAfterRestart(storage: MemoryStorage, options = {}): Promise<TestData[] | undefined> {
+  storage.restart();
+  const adapter = createTauriFileSystemAdapter<TestData>('items.json', { storage, ...options });
+  await adapter.register(() => { });
+  return (await adapter.load()).items;
+}
+
+test('Memory storage records the write sequence of a save', async () => {
+  const storage = seededStorage();
+  await saveNewData(storage);
+
+  const steps = storage.calls
+    .filter(call => call.operation !== 'stat' && call.operation !== 'exists' && call.operation !== 'list')
+    .map(call => call.operation);
+  expect(steps.slice(-3)).toEqual(['write', 'read', 'rename']);
+  expect(storage.calls.find(call => call.operation === 'write')?.options).toEqual({ sync: true });
+  expect([...storage.files.keys()]).toEqual(['items.json']);
+  expect(JSON.parse(new TextDecoder().decode(storage.files.get('items.json')))).toEqual(new_data);
+});
+
+test('A failed write of the temporary file leaves the collection untouched', async () => {
+  const storage = seededStorage();
+  storage.injectFault({ operation: 'write', name: /\.tmp\./ });
+
+  expect(await faultOf(saveNewData(storage))).toMatchObject({ operation: 'write' });
+  expect([...storage.files.keys()]).toEqual(['items.json']);
+  expect(await loadAfterRestart(storage)).toEqual(initial_data);
+});
+
+test('The Nth write fails', async () => {
+  const storage = seededStorage();
+  const adapter = createTauriFileSystemAdapter<TestData>('items.json', { storage });
+  await adapter.register(() => { });
+  storage.injectFault({ operation: 'write', nth: 2 });
+
+  await adapter.save(new_data, { added: [new_data[1]], modified: [], removed: [] });
+  const fault = await faultOf(adapter.save(initial_data, { added: [], modified: [], removed: [new_data[1]] }));
+  expect(fault.message).toContain('Injected write failure');
+  expect(await loadAfterRestart(storage)).toEqual(new_data);
+});
+
+test('A failed rename leaves the collection untouched and removes the temporary file', async () => {
+  const storage = seededStorage();
+  storage.injectFault({ operation: 'rename' });
+
+  expect((await faultOf(saveNewData(storage))).message).toContain('Injected rename failure');
+  expect([...storage.files.keys()]).toEqual(['items.json']);
+  expect(await loadAfterRestart(storage)).toEqual(initial_data);
+});
+
+test('A crash after writing the temporary file is recovered on the next start', async () => {
+  const storage = seededStorage();
+  storage.injectFault({ operation: 'write', name: /\.tmp\./, effect: 'complete', crash: true });
+
+  expect((await faultOf(saveNewData(storage))).message).toContain('Storage crashed after write');
+  expect(storage.crashed).toBe(true);
+  expect(storage.files.size).toBe(2);
+
+  // The main file is intact, so the uncommitted save is discarded
+  const on_recovery = mock(() => { });
+  expect(await loadAfterRestart(storage, { onRecovery: on_recovery })).toEqual(initial_data);
+  expect(on_recovery).toHaveBeenCalledWith(expect.objectContaining({ type: 'temp-files-discarded' }));
+  expect([...storage.files.keys()]).toEqual(['items.json']);
+});
+
+test('A torn write of the temporary file is discarded on the next start', async () => {
+  const storage = seededStorage();
+  storage.injectFault({ operation: 'write', name: /\.tmp\./, effect: 'partial', bytes: 10, crash: true });
+
+  expect((await faultOf(saveNewData(storage))).message).toContain('Injected partial write failure');
+  const torn = [...storage.files.entries()].find(([name]) => name.includes('.tmp.'));
+  expect(torn?.[1].byteLength).toBe(10);
+
+  expect(await loadAfterRestart(storage)).toEqual(initial_data);
+  expect([...storage.files.keys()]).toEqual(['items.json']);
+});
+
+test('A crash after removing an old backup keeps the collection loadable', async () => {
+  const storage = seededStorage();
+  const options = { security: { createBackups: true, maxBackups: 1 } };
+  const adapter = createTauriFileSystemAdapter<TestData>('items.json', { storage, ...options });
+  await adapter.register(() => { });
+  await adapter.save(new_data, { added: [new_data[1]], modified: [], removed: [] });
+  await new Promise(resolve => setTimeout(resolve, 2));
+
+  storage.injectFault({ operation: 'remove', name: /\.backup\./, effect: 'complete', crash: true });
+  const fault = await faultOf(adapter.save(initial_data, { added: [], modified: [], removed: [new_data[1]] }));
+  expect(fault.message).toContain('Storage crashed');
+
+  expect(await loadAfterRestart(storage, options)).toEqual(new_data);
+  expect(await createTauriFileSystemAdapter<TestData>('items.json', { storage, ...options }).listBackups())
+    .toHaveLength(1);
+});
+
+test('Backups taken within the same millisecond are all kept, newest first', async () => {
+  const storage = createMemoryStorage();
+  const adapter = createTauriFileSystemAdapter<TestData>('items.json', {
+    storage,
+    security: { createBackups: true, maxBackups: 10 }
+  });
+  await adapter.register(() => { });
+
+  setSystemTime(new Date('2024-01-01T00:00:00.000Z'));
+  try {
+    const items: TestData[] = [];
+    for (let i = 0; i < 20; i++) {
+      const item = { id: String(i), name: `Item ${i}`, value: i };
+      items.push(item);
+      await adapter.save([...items], { added: [item], modified: [], removed: [] });
+    }
+  } finally {
+    setSystemTime();
+  }
+
+  const backups = await adapter.listBackups();
+  expect(backups.map(backup => backup.itemCount)).toEqual([19, 18, 17, 16, 15, 14, 13, 12, 11, 10]);
+  expect(new Set(backups.map(backup => backup.id)).size).toBe(10);
+});
+
+test('Slow storage delays every call', async () => {
+  const storage = createMemoryStorage({ latencyMs: 5 });
+  storage.injectFault({ operation: 'rename', effect: 'complete', delayMs: 30 });
+
+  const started_at = Date.now();
+  await saveNewData(storage);
+
+  expect(Date.now() - started_at).toBeGreaterThanOrEqual(30 + storage.calls.length * 5);
+});
+
+test('Memory storage reports writes to watchers', async () => {
+  const storage = seededStorage();
+  const adapter = createTauriFileSystemAdapter<TestData>('items.json', { storage, watchExternalChanges: true, watchDelayMs: 5 });
+  const on_change = mock((data?: any) => { });
+  await adapter.register(on_change);
+  on_change.mockClear();
+
+  storage.externalWrite('items.json', JSON.stringify(new_data));
+  await new Promise(resolve => setTimeout(resolve, 30));
+
+  expect(on_change).toHaveBeenCalledWith({ items: new_data });
+  await adapter.unregister?.();
+});
+
+test('save() never overwrites a corrupt file or one encrypted with another key', async () => {
+  const truncated = '[{"id":"1","name":"Secret","value":1}';
+  const storage = createMemoryStorage({ files: { 'items.json': truncated } });
+  const on_recovery = mock(() => { });
+  const recovering = createTauriFileSystemAdapter<TestData>('items.json', {
+    storage,
+    onRecovery: on_recovery,
+    security: { recoverFromBackups: true }
+  });
+  const item = { id: '2', name: 'New', value: 2 };
+  const save_error = await recovering.save([item], { added: [item], modified: [], removed: [] })
+    .catch((error: unknown) => error);
+  expect(save_error).toBeInstanceOf(WriteError);
+  expect((save_error as WriteError).cause).toBeInstanceOf(IntegrityError);
+  expect(new TextDecoder().decode(storage.files.get('items.json'))).toBe(truncated);
+  expect(on_recovery).not.toHaveBeenCalled();
+
+  const right_key = createAesGcmEncryption({ key: new Uint8Array(32).fill(1) });
+  const wrong_key = createAesGcmEncryption({ key: new Uint8Array(32).fill(2) });
+  const encrypted_storage = createMemoryStorage();
+  await saveNewData(encrypted_storage, { encryption: right_key });
+  const encrypted = encrypted_storage.files.get('items.json');
+
+  const wrong = createTauriFileSystemAdapter<TestData>('items.json', { storage: encrypted_storage, encryption: wrong_key });
+  const wrong_key_error = await wrong.save([item], { added: [], modified: [item], removed: [] })
+    .catch((error: unknown) => error);
+  expect(wrong_key_error).toBeInstanceOf(WriteError);
+  expect((wrong_key_error as WriteError).cause).toBeInstanceOf(DecryptionError);
+  expect(encrypted_storage.files.get('items.json')).toBe(encrypted);
+  expect(await loadAfterRestart(encrypted_storage, { encryption: right_key })).toEqual(new_data);
+});
+
+test('A backup replayed over the collection after rekey() is still rejected', async () => {
+  const storage = createMemoryStorage();
+  const old_key = createAesGcmEncryption({ key: new Uint8Array(32).fill(1), keyId: 'k1' });
+  const new_key = createAesGcmEncryption({ key: new Uint8Array(32).fill(2), keyId: 'k2' });
+  const options = { storage, rollbackProtection: true, security: { createBackups: true } };
+
+  const writer = createTauriFileSystemAdapter<TestData>('items.json', { ...options, encryption: old_key });
+  await writer.register(() => { });
+  await writer.save(initial_data, { added: initial_data, modified: [], removed: [] });
+  await new Promise(resolve => setTimeout(resolve, 2));
+  await writer.save(new_data, { added: [new_data[1]], modified: [], removed: [] });
+
+  const rotated = createTauriFileSystemAdapter<TestData>('items.json', { ...options, encryption: new_key, keyring: [old_key] });
+  await rotated.rekey();
+
+  // Put the backup holding the older items back in place of the collection file
+  const older = (await rotated.listBackups()).find(backup => backup.itemCount === 1)!;
+  storage.files.set('items.json', storage.files.get(older.filename)!);
+
+  const reader = createTauriFileSystemAdapter<TestData>('items.json', { ...options, encryption: new_key });
+  expect(await reader.load().catch((error: unknown) => error)).toBeInstanceOf(RollbackError);
+});
+
+test('A corrupt file is only recovered from an older backup when rollbacks are allowed', async () => {
+  const storage = createMemoryStorage();
+  const options = {
+    storage,
+    integrityKey: 'app secret',
+    rollbackProtection: true,
+    security: { createBackups: true, recoverFromBackups: true }
+  };
+  const writer = createTauriFileSystemAdapter<TestData>('items.json', options);
+  await writer.register(() => { });
+  await writer.save(new_data, { added: new_data, modified: [], removed: [] });
+  await writer.save(initial_data, { added: [], modified: [], removed: [new_data[1]] });
+
+  // Truncating the file must not be a way to get the previous state back
+  const truncated = storage.files.get('items.json')!.slice(0, -1);
+  storage.files.set('items.json', truncated);
+  const on_recovery = mock(() => { });
+  const reader = createTauriFileSystemAdapter<TestData>('items.json', { ...options, onRecovery: on_recovery });
+  const error = await reader.load().catch((error: unknown) => error);
+  expect(error).toBeInstanceOf(IntegrityError);
+  expect(storage.files.get('items.json')).toBe(truncated);
+  expect(on_recovery).not.toHaveBeenCalled();
+
+  const allowing = createTauriFileSystemAdapter<TestData>('items.json', {
+    ...options,
+    security: { ...options.security, allowRollback: true },
+    onRecovery: on_recovery
+  });
+  expect((await allowing.load()).items).toEqual(new_data);
+  expect(on_recovery.mock.calls.map(([event]: any[]) => event.type)).toEqual(['rollback-accepted', 'backup-restored']);
+});
+
+/** Memory storage that reports lock files holding `stale` as written long ago */
+function storageWithStaleLock(): MemoryStorage {
+  const storage = createMemoryStorage({ latencyMs: 1, files: { 'items.json.lock': 'stale' } });
+  const stat = storage.stat;
+  storage.stat = async (name) => {
+    const info = await stat(name);
+    return new TextDecoder().decode(storage.files.get(name)) === 'stale' ? { ...info, mtime: new Date(0) } : info;
+  };
+  return storage;
+}
+
+const lock_options = { timeoutMs: 1000, staleMs: 1000, retryMs: 5 };
+
+test('Only one of two windows breaking the same stale lock takes it', async () => {
+  const storage = storageWithStaleLock();
+  // The first window to break the lock is slow, so the other breaks it and takes the lock first
+  storage.injectFault({ operation: 'rename', effect: 'complete', delayMs: 20 });
+  storage.injectFault({ operation: 'remove', effect: 'complete', delayMs: 20 });
+  let holders = 0;
+  let max_holders = 0;
+
+  await Promise.all([1, 2].map(async () => {
+    const release = await acquireFileLock('items.json', storage, lock_options);
+    max_holders = Math.max(max_holders, ++holders);
+    await new Promise(resolve => setTimeout(resolve, 30));
+    holders--;
+    await release();
+  }));
+
+  expect(max_holders).toBe(1);
+  expect([...storage.files.keys()]).toEqual([]);
+});
+
+test('Releasing a lock that was broken as stale keeps the new owner\'s lock', async () => {
+  const storage = createMemoryStorage();
+  const release = await acquireFileLock('items.json', storage, lock_options);
+
+  // Another window broke the lock and took its own
+  storage.files.set('items.json.lock', new TextEncoder().encode('other-window'));
+  await release();
+
+  expect(new TextDecoder().decode(storage.files.get('items.json.lock'))).toBe('other-window');
+  expect(storage.files.size).toBe(1);
+});
+
+test('A window retries when the lock is released right after it failed to take it', async () => {
+  const storage = createMemoryStorage();
+  const release = await acquireFileLock('items.json', storage, lock_options);
+
+  // The owner releases the lock before the failed window checks for it
+  const write = storage.write;
+  storage.write = async (name, data, options) => {
+    try {
+      return await write(name, data, options);
+    } catch (error) {
+      await release();
+      throw error;
+    }
+  };
+
+  const release_second = await acquireFileLock('items.json', storage, lock_options);
+  await release_second();
+  expect(storage.files.size).toBe(0);
+});
+
+test('A lock moved away by mistake is never put back over a lock taken since', async () => {
+  const storage = storageWithStaleLock();
+  const rename = storage.rename;
+  let renames = 0;
+  storage.rename = async (from, to) => {
+    // Another window breaks the stale lock and takes it just before this one moves it...
+    if (renames++ === 0) storage.files.set('items.json.lock', new TextEncoder().encode('second-window'));
+    await rename(from, to);
+    // ...and a third window takes the lock while it is moved away
+    if (renames === 1) storage.files.set('items.json.lock', new TextEncoder().encode('third-window'));
+  };
+
+  const error = await acquireFileLock('items.json', storage, { ...lock_options, timeoutMs: 20 })
+    .catch((error: unknown) => error);
+  expect(error).toBeInstanceOf(Error);
+  expect(new TextDecoder().decode(storage.files.get('items.json.lock'))).toBe('third-window');
+  expect([...storage.files.keys()]).toEqual(['items.json.lock']);
+});
+
+test('Lock and configuration failures are typed with the operation that failed', async () => {
+  const storage = createMemoryStorage({ files: { 'items.json.lock': 'other-window' } });
+  const adapter = createTauriFileSystemAdapter<TestData>('items.json', {
+    storage,
+    multiWindow: { lockTimeoutMs: 20, staleLockMs: 60_000 }
+  });
+
+  const save_error = await adapter.save(new_data, { added: new_data, modified: [], removed: [] })
+    .catch((error: unknown) => error);
+  expect(save_error).toBeInstanceOf(WriteError);
+  expect(save_error).toMatchObject({ code: 'WRITE_FAILED', phase: 'save' });
+
+  const load_error = await adapter.load().catch((error: unknown) => error);
+  expect(load_error).toBeInstanceOf(ReadError);
+  expect(load_error).toMatchObject({ code: 'READ_FAILED', phase: 'load' });
+  expect((load_error as ReadError).cause).toMatchObject({ message: 'Timed out waiting for lock on items.json' });
+
+  const rekey_error = await adapter.rekey().catch((error: unknown) => error);
+  expect(rekey_error).toBeInstanceOf(ConfigurationError);
+  expect(rekey_error).toMatchObject({ code: 'INVALID_CONFIGURATION', phase: 'rekey' });
+});
@@ -0,0 +1,145 @@
+import { test, expect, beforeEach, afterEach, mock } from 'bun:test';
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createTauriFileSystemAdapter, createAesGcmEncryption } from '../src/index';
+import { createNodeStorage } from '../src/node';
+
+// Test data interface
+interface TestData {
+  id: string;
+  name: string;
+  value: number;
+}
+
+let root: string;
+let originalConsoleWarn: typeof console.warn;
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), 'signaldb-adapter-tauri-'));
+
+  originalConsoleWarn = console.warn;
+  console.warn = (...args: any[]) => {
+    if (args.join(' ').includes('[SECURITY WARNING]')) return;
+    originalConsoleWarn(...args);
+  };
+});
+
+afterEach(async () => {
+  console.warn = originalConsoleWarn;
+  await rm(root, { recursive: true, force: true });
+});
+
+/** Waits until a condition holds, for file system events that arrive asynchronously */
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const started_at = Date.now();
+  while (!condition()) {
+    if (Date.now() - started_at > timeoutMs) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
+
+test('Node storage writes plain collection files into the root directory', async () => {
+  const adapter = createTauriFileSystemAdapter<TestData>('items.json', { storage: createNodeStorage(root) });
+  await adapter.register(() => { });
+
+  const test_data: TestData[] = [{ id: '1', name: 'On disk', value: 1 }];
+  await adapter.save(test_data, { added: test_data, modified: [], removed: [] });
+
+  // Atomic writes leave no temporary files behind
+  expect(await readdir(root)).toEqual(['items.json']);
+  expect(JSON.parse(await readFile(join(root, 'items.json'), 'utf8'))).toEqual(test_data);
+  expect((await adapter.load()).items).toEqual(test_data);
+});
+
+test('Node storage creates a missing root directory', async () => {
+  const nested = join(root, 'nested', 'data');
+  const adapter = createTauriFileSystemAdapter<TestData>('items.json', { storage: createNodeStorage(nested) });
+  await adapter.register(() => { });
+
+  expect(await readdir(nested)).toEqual(['items.json']);
+});
+
+test('Files written through Node storage load in another adapter with the same options', async () => {
+  const options = () => ({
+    storage: createNodeStorage(root),
+    encryption: createAesGcmEncryption({ key: new Uint8Array(32).fill(3) }),
+    integrityKey: 'node-storage-integrity-key',
+    compression: 'gzip' as const,
+    security: { createBackups: true }
+  });
+
+  const writer = createTauriFileSystemAdapter<TestData>('secret.json', options());
+  await writer.register(() => { });
+  const first: TestData[] = [{ id: '1', name: 'Secret', value: 1 }];
+  await writer.save(first, { added: first, modified: [], removed: [] });
+  const second: TestData[] = [{ id: '1', name: 'Secret', value: 2 }];
+  await writer.save(second, { added: [], modified: second, removed: [] });
+
+  const contents = await readFile(join(root, 'secret.json'));
+  expect(new TextDecoder().decode(contents.subarray(0, 5))).toBe('SDBT ');
+  expect(contents.includes(Buffer.from('Secret'))).toBe(false);
+
+  // A separate adapter, e.g. in a migration script, reads what the app wrote
+  const reader = createTauriFileSystemAdapter<TestData>('secret.json', options());
+  expect((await reader.load()).items).toEqual(second);
+
+  const backups = await reader.listBackups();
+  expect(backups.length).toBeGreaterThan(0);
+  await reader.register(() => { });
+  await reader.restoreBackup(backups[0].id);
+  expect((await reader.load()).items).toEqual(first);
+});
+
+test('Node storage recovers from a save interrupted before the rename', async () => {
+  const test_data: TestData[] = [{ id: '1', name: 'Recovered', value: 1 }];
+  await writeFile(join(root, `items.json.tmp.${Date.now()}.abc`), JSON.stringify(test_data));
+
+  const on_recovery = mock(() => { });
+  const adapter = createTauriFileSystemAdapter<TestData>('items.json', {
+    storage: createNodeStorage(root),
+    onRecovery: on_recovery
+  });
+  await adapter.register(() => { });
+
+  expect(await readdir(root)).toEqual(['items.json']);
+  expect((await adapter.load()).items).toEqual(test_data);
+  expect(on_recovery).toHaveBeenCalledWith(expect.objectContaining({ type: 'temp-file-promoted' }));
+});
+
+test('Node storage creates files exclusively with createNew', async () => {
+  const storage = createNodeStorage(root);
+  await storage.write('items.json.lock', new TextEncoder().encode('1'), { createNew: true });
+
+  await expect(storage.write('items.json.lock', new TextEncoder().encode('2'), { createNew: true })).rejects.toThrow();
+  expect(new TextDecoder().decode(await storage.read('items.json.lock'))).toBe('1');
+});
+
+test('Node storage rejects names outside the root directory', async () => {
+  const storage = createNodeStorage(root);
+
+  await expect(storage.read('../escape.json')).rejects.toThrow('Invalid storage filename');
+  await expect(storage.write('nested/items.json', new Uint8Array())).rejects.toThrow('Invalid storage filename');
+});
+
+test('Node storage watches the root directory for external changes', async () => {
+  const adapter = createTauriFileSystemAdapter<TestData>('watched.json', {
+    storage: createNodeStorage(root),
+    watchExternalChanges: true,
+    watchDelayMs: 20
+  });
+
+  const on_change = mock((data?: any) => { });
+  await adapter.register(on_change);
+  on_change.mockClear();
+
+  const external_data: TestData[] = [{ id: '1', name: 'External', value: 1 }];
+  await writeFile(join(root, 'watched.json'), JSON.stringify(external_data));
+
+  try {
+    await waitFor(() => on_change.mock.calls.length > 0);
+    expect(on_change).toHaveBeenLastCalledWith({ items: external_data });
+  } finally {
+    await adapter.unregister?.();
+  }
+});
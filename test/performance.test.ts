@@ -34,13 +34,70 @@ const mock_remove = mock(async (filename: string, options?: { baseDir?: BaseDire
   mock_file_system.delete(full_path);
 });
 
+const mock_open = mock(async (filename: string, options: { write?: boolean; create?: boolean; baseDir?: BaseDirectory }) => {
+  const base_dir = options.baseDir || BaseDirectory.AppLocalData;
+  const full_path = `${base_dir}/${filename}`;
+
+  return {
+    write: mock(async (data: Uint8Array) => {
+      mock_file_system.set(full_path, data);
+      return data.byteLength;
+    }),
+    truncate: mock(async () => {
+      mock_file_system.set(full_path, new Uint8Array(0));
+    }),
+    close: mock(async () => { }),
+  };
+});
+
+const mock_rename = mock(async (old_path: string, new_path: string, options?: { oldPathBaseDir?: BaseDirectory; newPathBaseDir?: BaseDirectory }): Promise<void> => {
+  const old_full_path = `${options?.oldPathBaseDir || BaseDirectory.AppLocalData}/${old_path}`;
+  const new_full_path = `${options?.newPathBaseDir || BaseDirectory.AppLocalData}/${new_path}`;
+  const content = mock_file_system.get(old_full_path);
+  if (!content) {
+    throw new Error(`File not found: ${old_path}`);
+  }
+  mock_file_system.delete(old_full_path);
+  mock_file_system.set(new_full_path, content);
+});
+
+const mock_read_dir = mock(async (path: string, options?: { baseDir?: BaseDirectory }) => {
+  const prefix = `${options?.baseDir || BaseDirectory.AppLocalData}/`;
+  return Array.from(mock_file_system.keys())
+    .filter(key => key.startsWith(prefix))
+    .map(key => ({ name: key.slice(prefix.length), isFile: true, isDirectory: false, isSymlink: false }));
+});
+
+// Every written buffer gets its own modification time, so rewrites are detectable
+let mock_clock = 0;
+const mock_mtimes = new WeakMap<Uint8Array, Date>();
+
+const mock_stat = mock(async (filename: string, options?: { baseDir?: BaseDirectory }) => {
+  const base_dir = options?.baseDir || BaseDirectory.AppLocalData;
+  const full_path = `${base_dir}/${filename}`;
+  const content = mock_file_system.get(full_path);
+  if (!content) {
+    throw new Error(`File not found: ${filename}`);
+  }
+  let mtime = mock_mtimes.get(content);
+  if (!mtime) {
+    mtime = new Date(++mock_clock);
+    mock_mtimes.set(content, mtime);
+  }
+  return { isFile: true, isDirectory: false, isSymlink: false, size: content.byteLength, mtime, atime: null, birthtime: null, readonly: false };
+});
+
 // Mock the Tauri filesystem module
 mock.module('@tauri-apps/plugin-fs', () => ({
   BaseDirectory,
   exists: mock_exists,
   readFile: mock_read_file,
   writeFile: mock_write_file,
-  remove: mock_remove
+  remove: mock_remove,
+  open: mock_open,
+  rename: mock_rename,
+  readDir: mock_read_dir,
+  stat: mock_stat
 }));
 
 // Now import our adapter after mocking
@@ -181,6 +238,12 @@ class PerformanceTester {
 
   async cleanup(): Promise<void> {
     try {
+      // Let in-flight saves finish before removing their files
+      await this.collection.isReady();
+      if (this.collection.isPushing()) {
+        await new Promise<void>(resolve => this.collection.once('persistence.pushCompleted', resolve));
+      }
+
       const fileExists = await mock_exists(this.testFileName, { baseDir: BaseDirectory.AppLocalData });
       if (fileExists) {
         await mock_remove(this.testFileName, { baseDir: BaseDirectory.AppLocalData });
@@ -344,6 +407,12 @@ class NestedPerformanceTester {
 
   async cleanup(): Promise<void> {
     try {
+      // Let in-flight saves finish before removing their files
+      await this.collection.isReady();
+      if (this.collection.isPushing()) {
+        await new Promise<void>(resolve => this.collection.once('persistence.pushCompleted', resolve));
+      }
+
       const fileExists = await mock_exists(this.testFileName, { baseDir: BaseDirectory.AppLocalData });
       if (fileExists) {
         await mock_remove(this.testFileName, { baseDir: BaseDirectory.AppLocalData });
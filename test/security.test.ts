@@ -1,6 +1,16 @@
 import { test, expect, beforeEach, afterEach, mock } from 'bun:test';
 import { BaseDirectory } from '@tauri-apps/plugin-fs';
-import { createTauriFileSystemAdapter } from '../src/index';
+import {
+  createTauriFileSystemAdapter,
+  createAesGcmEncryption,
+  CallbackError,
+  DecryptionError,
+  IntegrityError,
+  MigrationError,
+  PathError,
+  ValidationError,
+  WriteError
+} from '../src/index';
 
 // Test data interface
 interface TestData {
@@ -41,13 +51,69 @@ const mock_remove = mock(async (filename: string, options?: { baseDir?: BaseDire
   mock_file_system.delete(full_path);
 });
 
+const mock_open = mock(async (filename: string, options: { write?: boolean; create?: boolean; baseDir?: BaseDirectory }) => {
+  const base_dir = options.baseDir || BaseDirectory.AppLocalData;
+  const full_path = `${base_dir}/${filename}`;
+
+  return {
+    write: mock(async (data: Uint8Array) => {
+      mock_file_system.set(full_path, data);
+      return data.byteLength;
+    }),
+    truncate: mock(async () => {
+      mock_file_system.set(full_path, new Uint8Array(0));
+    }),
+    close: mock(async () => { }),
+  };
+});
+
+const mock_rename = mock(async (old_path: string, new_path: string, options?: { oldPathBaseDir?: BaseDirectory; newPathBaseDir?: BaseDirectory }): Promise<void> => {
+  const old_full_path = `${options?.oldPathBaseDir || BaseDirectory.AppLocalData}/${old_path}`;
+  const new_full_path = `${options?.newPathBaseDir || BaseDirectory.AppLocalData}/${new_path}`;
+  const content = mock_file_system.get(old_full_path);
+  if (!content) {
+    throw new Error(`File not found: ${old_path}`);
+  }
+  mock_file_system.delete(old_full_path);
+  mock_file_system.set(new_full_path, content);
+});
+
+const mock_read_dir = mock(async (path: string, options?: { baseDir?: BaseDirectory }) => {
+  const prefix = `${options?.baseDir || BaseDirectory.AppLocalData}/`;
+  return Array.from(mock_file_system.keys())
+    .filter(key => key.startsWith(prefix))
+    .map(key => ({ name: key.slice(prefix.length), isFile: true, isDirectory: false, isSymlink: false }));
+});
+
+// Every written buffer gets its own modification time, so rewrites are detectable
+let mock_clock = 0;
+const mock_mtimes = new WeakMap<Uint8Array, Date>();
+
+const mock_stat = mock(async (filename: string, options?: { baseDir?: BaseDirectory }) => {
+  const base_dir = options?.baseDir || BaseDirectory.AppLocalData;
+  const full_path = `${base_dir}/${filename}`;
+  const content = mock_file_system.get(full_path);
+  if (!content) {
+    throw new Error(`File not found: ${filename}`);
+  }
+  let mtime = mock_mtimes.get(content);
+  if (!mtime) {
+    mtime = new Date(++mock_clock);
+    mock_mtimes.set(content, mtime);
+  }
+  return { isFile: true, isDirectory: false, isSymlink: false, size: content.byteLength, mtime, atime: null, birthtime: null, readonly: false };
+});
+
 // Mock the Tauri fs plugin
 mock.module('@tauri-apps/plugin-fs', () => ({
   exists: mock_exists,
   readFile: mock_read_file,
   writeFile: mock_write_file,
   remove: mock_remove,
-  open: mock(async () => ({ write: mock(), close: mock(), truncate: mock() })),
+  open: mock_open,
+  rename: mock_rename,
+  readDir: mock_read_dir,
+  stat: mock_stat,
   BaseDirectory: {
     AppLocalData: 'AppLocalData',
     Document: 'Document'
@@ -63,6 +129,10 @@ beforeEach(() => {
   mock_read_file.mockClear();
   mock_write_file.mockClear();
   mock_remove.mockClear();
+  mock_open.mockClear();
+  mock_rename.mockClear();
+  mock_read_dir.mockClear();
+  mock_stat.mockClear();
 
   // Suppress non-critical warnings for cleaner test output
   originalConsoleWarn = console.warn;
@@ -114,6 +184,18 @@ test('Security: Empty or invalid filename throws error', () => {
   }
 });
 
+test('Security: Invalid filenames throw a PathError', () => {
+  let error: unknown;
+  try {
+    createTauriFileSystemAdapter<TestData>('../secret.json');
+  } catch (caught) {
+    error = caught;
+  }
+
+  expect(error).toBeInstanceOf(PathError);
+  expect(error).toMatchObject({ code: 'INVALID_PATH', filename: '../secret.json' });
+});
+
 test('Security: Warning when no encryption provided', () => {
   const originalWarn = console.warn;
   const warnings: string[] = [];
@@ -215,6 +297,72 @@ test('Security: Callback errors propagate when enabled', async () => {
     .rejects.toThrow('Change callback failed');
 });
 
+test('Security: Load and save failures are typed with stable codes', async () => {
+  const decrypt = mock(async (data: string) => {
+    throw new Error('Invalid encrypted data');
+  });
+  mock_file_system.set('AppLocalData/test.json', new TextEncoder().encode('tampered_data_not_encrypted'));
+
+  const encrypted = createTauriFileSystemAdapter<TestData>('test.json', {
+    encrypt: async data => JSON.stringify(data),
+    decrypt,
+    security: { allowPlaintextFallback: false }
+  });
+  const decryption_error = await encrypted.load().catch((error: unknown) => error);
+  expect(decryption_error).toBeInstanceOf(DecryptionError);
+  expect(decryption_error).toMatchObject({ code: 'DECRYPTION_FAILED', filename: 'test.json', phase: 'load' });
+  expect((decryption_error as DecryptionError).cause).toMatchObject({ message: 'Invalid encrypted data' });
+
+  mock_file_system.set('AppLocalData/test.json', new TextEncoder().encode(JSON.stringify({ not: 'a list' })));
+  const validated = createTauriFileSystemAdapter<TestData>('test.json', { security: { validateDecryptedData: true } });
+  expect(await validated.load().catch((error: unknown) => error)).toBeInstanceOf(ValidationError);
+
+  const callback_error = new Error('Callback failed');
+  const adapter = createTauriFileSystemAdapter<TestData>('callback.json', {
+    security: { propagateCallbackErrors: true }
+  });
+  await adapter.register(async () => {
+    throw callback_error;
+  });
+  const test_data: TestData[] = [{ id: '1', name: 'test', value: 42 }];
+  const save_error = await adapter.save(test_data, { added: test_data, modified: [], removed: [] })
+    .catch((error: unknown) => error);
+  expect(save_error).toBeInstanceOf(CallbackError);
+  expect(save_error).toMatchObject({ code: 'CALLBACK_FAILED', phase: 'save', cause: callback_error });
+});
+
+test('Security: A failed write throws a WriteError with the storage error as cause', async () => {
+  const adapter = createTauriFileSystemAdapter<TestData>('write-error.json');
+  await adapter.register(() => { });
+
+  // Temporary files are written through a file handle
+  const storage_error = new Error('Disk full');
+  mock_open.mockImplementationOnce(async () => {
+    throw storage_error;
+  });
+
+  const test_data: TestData[] = [{ id: '1', name: 'test', value: 42 }];
+  const error = await adapter.save(test_data, { added: test_data, modified: [], removed: [] })
+    .catch((caught: unknown) => caught);
+  expect(error).toBeInstanceOf(WriteError);
+  expect(error).toMatchObject({ code: 'WRITE_FAILED', filename: 'write-error.json', phase: 'save' });
+  expect((error as WriteError).cause).toBe(storage_error);
+});
+
+test('Security: Corrupt and unmigratable files fail load with typed errors', async () => {
+  mock_file_system.set('AppLocalData/corrupt.json', new TextEncoder().encode('{"truncated'));
+  const corrupt = createTauriFileSystemAdapter<TestData>('corrupt.json', { security: { recoverFromBackups: true } });
+  const integrity_error = await corrupt.load().catch((error: unknown) => error);
+  expect(integrity_error).toBeInstanceOf(IntegrityError);
+  expect(integrity_error).toMatchObject({ code: 'INTEGRITY_CHECK_FAILED', phase: 'load' });
+
+  mock_file_system.set('AppLocalData/versioned.json', new TextEncoder().encode('[]'));
+  const versioned = createTauriFileSystemAdapter<TestData>('versioned.json', { schemaVersion: 1 });
+  const migration_error = await versioned.load().catch((error: unknown) => error);
+  expect(migration_error).toBeInstanceOf(MigrationError);
+  expect(migration_error).toMatchObject({ code: 'MIGRATION_FAILED', phase: 'load' });
+});
+
 test('Security: Callback errors are silenced when disabled', async () => {
   const originalWarn = console.warn;
   const warnings: string[] = [];
@@ -284,6 +432,154 @@ test('Security: Backup files are NOT created by default (for sync scenarios)', a
   expect(backup_files.length).toBe(0);
 });
 
+test('Security: Old backups are rotated to respect maxBackups', async () => {
+  mock_file_system.set('AppLocalData/test.json', new TextEncoder().encode(JSON.stringify([
+    { id: '1', name: 'existing', value: 1 }
+  ])));
+
+  // Older backups from previous sessions
+  const old_backups = [
+    'test.json.backup.2024-01-01T00-00-00-000Z',
+    'test.json.backup.2024-01-02T00-00-00-000Z',
+    'test.json.backup.2024-01-03T00-00-00-000Z'
+  ];
+  for (const backup of old_backups) {
+    mock_file_system.set(`AppLocalData/${backup}`, new TextEncoder().encode('[]'));
+  }
+  // Backups of other collections are not touched
+  mock_file_system.set('AppLocalData/other.json.backup.2024-01-01T00-00-00-000Z', new TextEncoder().encode('[]'));
+
+  const adapter = createTauriFileSystemAdapter<TestData>('test.json', {
+    security: { createBackups: true, maxBackups: 2 }
+  });
+  await adapter.register(mock());
+
+  const new_data: TestData[] = [{ id: '2', name: 'new', value: 2 }];
+  await adapter.save(new_data, { added: new_data, modified: [], removed: [] });
+
+  const backup_files = Array.from(mock_file_system.keys())
+    .filter(key => key.startsWith('AppLocalData/test.json.backup.'))
+    .sort();
+
+  // The backup just taken and the newest old one remain
+  expect(backup_files.length).toBe(2);
+  expect(backup_files[0]).toBe('AppLocalData/test.json.backup.2024-01-03T00-00-00-000Z');
+  expect(mock_file_system.has('AppLocalData/other.json.backup.2024-01-01T00-00-00-000Z')).toBe(true);
+});
+
+test('Security: Backups can be listed and restored', async () => {
+  const backup_data: TestData[] = [
+    { id: '1', name: 'from backup', value: 1 },
+    { id: '2', name: 'from backup', value: 2 }
+  ];
+  const current_data: TestData[] = [{ id: '3', name: 'current', value: 3 }];
+
+  mock_file_system.set('AppLocalData/test.json', new TextEncoder().encode(JSON.stringify(current_data)));
+  mock_file_system.set('AppLocalData/test.json.backup.2024-01-01T00-00-00-000Z', new TextEncoder().encode(JSON.stringify(backup_data)));
+  mock_file_system.set('AppLocalData/test.json.backup.2024-01-02T00-00-00-000Z', new TextEncoder().encode('corrupted'));
+
+  const callback = mock(() => { });
+  const adapter = createTauriFileSystemAdapter<TestData>('test.json');
+  await adapter.register(callback);
+  callback.mockClear();
+
+  const backups = await adapter.listBackups();
+  expect(backups.map(backup => backup.id)).toEqual(['2024-01-02T00-00-00-000Z', '2024-01-01T00-00-00-000Z']);
+  expect(backups[0].itemCount).toBeNull();
+  expect(backups[1]).toEqual({
+    id: '2024-01-01T00-00-00-000Z',
+    filename: 'test.json.backup.2024-01-01T00-00-00-000Z',
+    timestamp: new Date('2024-01-01T00:00:00.000Z'),
+    size: JSON.stringify(backup_data).length,
+    itemCount: 2
+  });
+
+  // Corrupt backups and unknown ids are rejected without touching the file
+  await expect(adapter.restoreBackup('2024-01-02T00-00-00-000Z')).rejects.toThrow('is not valid and cannot be restored');
+  await expect(adapter.restoreBackup('../../secret')).rejects.toThrow('not found');
+  expect((await adapter.load()).items).toEqual(current_data);
+
+  await adapter.restoreBackup('2024-01-01T00-00-00-000Z');
+
+  expect((await adapter.load()).items).toEqual(backup_data);
+  expect(callback).toHaveBeenCalledWith({ items: backup_data });
+  expect(Array.from(mock_file_system.keys()).some(key => key.includes('.tmp.'))).toBe(false);
+});
+
+test('Security: Corrupt file is quarantined and the newest valid backup is loaded', async () => {
+  const backup_data: TestData[] = [{ id: '1', name: 'from backup', value: 1 }];
+
+  mock_file_system.set('AppLocalData/test.json', new TextEncoder().encode('{"corrupted'));
+  mock_file_system.set('AppLocalData/test.json.backup.2024-01-01T00-00-00-000Z', new TextEncoder().encode('[]'));
+  mock_file_system.set('AppLocalData/test.json.backup.2024-01-02T00-00-00-000Z', new TextEncoder().encode(JSON.stringify(backup_data)));
+  mock_file_system.set('AppLocalData/test.json.backup.2024-01-03T00-00-00-000Z', new TextEncoder().encode('also corrupted'));
+
+  const on_recovery = mock(() => { });
+  const adapter = createTauriFileSystemAdapter<TestData>('test.json', {
+    security: { recoverFromBackups: true },
+    onRecovery: on_recovery
+  });
+
+  const result = await adapter.load();
+  expect(result.items).toEqual(backup_data);
+
+  // The restored backup becomes the collection file
+  expect(new TextDecoder().decode(mock_file_system.get('AppLocalData/test.json')!)).toBe(JSON.stringify(backup_data));
+
+  // The corrupt file is kept aside instead of being overwritten
+  const quarantined = Array.from(mock_file_system.keys()).filter(key => key.startsWith('AppLocalData/test.json.corrupt.'));
+  expect(quarantined.length).toBe(1);
+  expect(new TextDecoder().decode(mock_file_system.get(quarantined[0])!)).toBe('{"corrupted');
+
+  expect(on_recovery).toHaveBeenCalledTimes(1);
+  expect(on_recovery).toHaveBeenCalledWith(expect.objectContaining({
+    type: 'backup-restored',
+    filename: 'test.json',
+    backupId: '2024-01-02T00-00-00-000Z',
+    quarantinedAs: quarantined[0].slice('AppLocalData/'.length),
+    itemCount: 1
+  }));
+});
+
+test('Security: Corrupt file is left in place without a usable backup', async () => {
+  mock_file_system.set('AppLocalData/test.json', new TextEncoder().encode('{"corrupted'));
+  mock_file_system.set('AppLocalData/test.json.backup.2024-01-01T00-00-00-000Z', new TextEncoder().encode('also corrupted'));
+
+  const on_recovery = mock(() => { });
+  const adapter = createTauriFileSystemAdapter<TestData>('test.json', {
+    security: { recoverFromBackups: true },
+    onRecovery: on_recovery
+  });
+
+  await expect(adapter.load()).rejects.toThrow('Corrupted JSON');
+
+  expect(new TextDecoder().decode(mock_file_system.get('AppLocalData/test.json')!)).toBe('{"corrupted');
+  expect(Array.from(mock_file_system.keys()).some(key => key.includes('.corrupt.'))).toBe(false);
+  expect(on_recovery).not.toHaveBeenCalled();
+});
+
+test('Security: A file that fails decryption is never replaced by a backup', async () => {
+  const options = (key: number) => ({
+    encryption: createAesGcmEncryption({ key: new Uint8Array(32).fill(key) }),
+    security: { createBackups: true, recoverFromBackups: true }
+  });
+  const test_data: TestData[] = [{ id: '1', name: 'secret', value: 1 }];
+  const writer = createTauriFileSystemAdapter<TestData>('test.json', options(1));
+  await writer.register(() => { });
+  await writer.save(test_data, { added: test_data, modified: [], removed: [] });
+  const stored = mock_file_system.get('AppLocalData/test.json');
+
+  // A mistyped key cannot tell a corrupt file from one written with another key
+  const on_recovery = mock(() => { });
+  const reader = createTauriFileSystemAdapter<TestData>('test.json', { ...options(2), onRecovery: on_recovery });
+  await reader.register(() => { });
+  expect(await reader.load().catch((error: unknown) => error)).toBeInstanceOf(DecryptionError);
+
+  expect(mock_file_system.get('AppLocalData/test.json')).toBe(stored);
+  expect(Array.from(mock_file_system.keys()).some(key => key.includes('.corrupt.'))).toBe(false);
+  expect(on_recovery).not.toHaveBeenCalled();
+});
+
 test('Security: Temporary files are cleaned up on successful write', async () => {
   const adapter = createTauriFileSystemAdapter<TestData>('test.json');
   await adapter.register(mock());
@@ -0,0 +1,170 @@
+import { test, expect, beforeEach, afterEach, mock } from 'bun:test';
+import { BaseDirectory } from '@tauri-apps/plugin-fs';
+import { createTauriFileSystemAdapter, createAesGcmEncryption, type StorageBackend } from '../src/index';
+
+// Test data interface
+interface TestData {
+  id: string;
+  name: string;
+  value: number;
+}
+
+/**
+ * Storage keeping files in a Map, so these tests need no module mocking
+ */
+function createMapStorage(id: string) {
+  const files = new Map<string, Uint8Array>();
+  const mtimes = new Map<string, Date>();
+  let clock = 0;
+  let watcher: ((names: string[]) => void) | null = null;
+
+  const storage: StorageBackend = {
+    id,
+    async read(name) {
+      const data = files.get(name);
+      if (!data) throw new Error(`File not found: ${name}`);
+      return data;
+    },
+    async write(name, data, options = {}) {
+      if (options.createNew && files.has(name)) throw new Error(`File exists: ${name}`);
+      files.set(name, data);
+      mtimes.set(name, new Date(++clock));
+    },
+    async rename(from, to) {
+      const data = await storage.read(from);
+      files.delete(from);
+      files.set(to, data);
+      mtimes.set(to, mtimes.get(from) ?? new Date(++clock));
+    },
+    async remove(name) {
+      files.delete(name);
+    },
+    async exists(name) {
+      return files.has(name);
+    },
+    async list() {
+      return [...files.keys()];
+    },
+    async stat(name) {
+      const data = await storage.read(name);
+      return { size: data.byteLength, mtime: mtimes.get(name) ?? null };
+    },
+    async watch(callback) {
+      watcher = callback;
+      return () => {
+        watcher = null;
+      };
+    }
+  };
+
+  return {
+    storage,
+    files,
+    /** Simulates another process writing a file */
+    externalWrite(name: string, data: Uint8Array) {
+      files.set(name, data);
+      mtimes.set(name, new Date(++clock));
+      watcher?.([name]);
+    }
+  };
+}
+
+let originalConsoleWarn: typeof console.warn;
+
+beforeEach(() => {
+  originalConsoleWarn = console.warn;
+  console.warn = (...args: any[]) => {
+    if (args.join(' ').includes('[SECURITY WARNING]')) return;
+    originalConsoleWarn(...args);
+  };
+});
+
+afterEach(() => {
+  console.warn = originalConsoleWarn;
+});
+
+test('Custom storage receives every read and write', async () => {
+  const { storage, files } = createMapStorage('memory');
+  const adapter = createTauriFileSystemAdapter<TestData>('items.json', { storage });
+
+  await adapter.register(() => { });
+  expect(new TextDecoder().decode(files.get('items.json'))).toBe('[]');
+
+  const test_data: TestData[] = [{ id: '1', name: 'Stored', value: 1 }];
+  await adapter.save(test_data, { added: test_data, modified: [], removed: [] });
+
+  // The atomic write leaves no temporary file behind
+  expect([...files.keys()]).toEqual(['items.json']);
+  expect(JSON.parse(new TextDecoder().decode(files.get('items.json')))).toEqual(test_data);
+  expect((await adapter.load()).items).toEqual(test_data);
+});
+
+test('Custom storage keeps encryption and backups', async () => {
+  const { storage, files } = createMapStorage('memory');
+  const adapter = createTauriFileSystemAdapter<TestData>('secret.json', {
+    storage,
+    encryption: createAesGcmEncryption({ key: new Uint8Array(32).fill(7) }),
+    envelope: true,
+    security: { createBackups: true, maxBackups: 2 }
+  });
+
+  await adapter.register(() => { });
+  for (let i = 1; i <= 4; i++) {
+    const items: TestData[] = [{ id: '1', name: 'Secret', value: i }];
+    await adapter.save(items, i === 1
+      ? { added: items, modified: [], removed: [] }
+      : { added: [], modified: items, removed: [] });
+    // Backup names have millisecond timestamps
+    await new Promise(resolve => setTimeout(resolve, 2));
+  }
+
+  expect(new TextDecoder().decode(files.get('secret.json'))).not.toContain('Secret');
+  expect((await adapter.load()).items).toEqual([{ id: '1', name: 'Secret', value: 4 }]);
+
+  const backups = await adapter.listBackups();
+  expect(backups).toHaveLength(2);
+  expect(backups.map(backup => backup.itemCount)).toEqual([1, 1]);
+});
+
+test('Adapters on storages with different ids are independent', async () => {
+  const first = createMapStorage('first');
+  const second = createMapStorage('second');
+  const adapter_1 = createTauriFileSystemAdapter<TestData>('shared.json', { storage: first.storage });
+  const adapter_2 = createTauriFileSystemAdapter<TestData>('shared.json', { storage: second.storage });
+
+  await adapter_1.register(() => { });
+  await adapter_2.register(() => { });
+
+  const test_data: TestData[] = [{ id: '1', name: 'First only', value: 1 }];
+  await adapter_1.save(test_data, { added: test_data, modified: [], removed: [] });
+
+  expect((await adapter_1.load()).items).toEqual(test_data);
+  expect((await adapter_2.load()).items).toEqual([]);
+});
+
+test('Custom storage watch() reports external changes', async () => {
+  const { storage, externalWrite } = createMapStorage('memory');
+  const adapter = createTauriFileSystemAdapter<TestData>('watched.json', { storage, watchExternalChanges: true });
+
+  const on_change = mock((data?: any) => { });
+  await adapter.register(on_change);
+  on_change.mockClear();
+
+  const external_data: TestData[] = [{ id: '1', name: 'External', value: 1 }];
+  externalWrite('watched.json', new TextEncoder().encode(JSON.stringify(external_data)));
+  await new Promise(resolve => setTimeout(resolve, 10));
+
+  expect(on_change).toHaveBeenCalledWith({ items: external_data });
+  await adapter.unregister?.();
+});
+
+test('Custom storage rejects conflicting options', () => {
+  const { storage } = createMapStorage('memory');
+
+  expect(() => createTauriFileSystemAdapter<TestData>('conflict.json', { storage, base_dir: BaseDirectory.AppConfig }))
+    .toThrow('base_dir only applies to the default Tauri storage');
+
+  const { watch: _watch, ...unwatchable } = storage;
+  expect(() => createTauriFileSystemAdapter<TestData>('conflict.json', { storage: unwatchable, watchExternalChanges: true }))
+    .toThrow('watchExternalChanges requires a storage that implements watch()');
+});